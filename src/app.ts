@@ -10,22 +10,27 @@ import productRoutes from "./routes/product.routes";
 import homeContentRoutes from "./routes/homeContent.routes";
 import blogRoutes from "./routes/blog.routes";
 import publicBlogRoutes from "./routes/publicBlog.routes";
+import userRoutes from "./routes/user.routes";
+import securitySettingsRoutes from "./routes/securitySettings.routes";
+import apiKeyRoutes from "./routes/apiKey.routes";
+import auditRoutes from "./routes/audit.routes";
+import wellKnownRoutes from "./routes/wellKnown.routes";
+import slugRedirectRoutes from "./routes/slugRedirect.routes";
+import sitemapRoutes from "./routes/sitemap.routes";
+import blogCategoryRoutes from "./routes/blogCategory.routes";
+import blogSeriesRoutes from "./routes/blogSeries.routes";
+import tagRoutes from "./routes/tag.routes";
+import { ALLOWED_ORIGINS } from "./config/app";
 
 const app = express();
 
 app.set("trust proxy", 1);
 
-const allowList = (process.env.CORS_ORIGINS || "")
-  .split(",")
-  .map((s) => s.trim())
-  .filter(Boolean);
-
 app.use(
   cors({
     origin(origin, cb) {
       if (!origin) return cb(null, true);
-      if (allowList.length === 0 || allowList.includes(origin))
-        return cb(null, true);
+      if (ALLOWED_ORIGINS.includes(origin)) return cb(null, true);
       return cb(new Error(`CORS blocked for origin: ${origin}`));
     },
     credentials: true,
@@ -41,6 +46,8 @@ app.use(express.text({ type: ["text/*"] }));
 app.use(morgan("dev"));
 
 app.get("/healthz", (_req, res) => res.json({ ok: true }));
+app.use("/.well-known", wellKnownRoutes);
+app.use(sitemapRoutes);
 
 const API_BASE = process.env.API_BASE?.trim() || "/api/v1";
 app.use(`${API_BASE}/upload`, uploadRoutes);
@@ -49,6 +56,14 @@ app.use(`${API_BASE}/products`, productRoutes);
 app.use(`${API_BASE}/homeContent`, homeContentRoutes);
 app.use(`${API_BASE}/blogs`, blogRoutes);
 app.use(`${API_BASE}/public/blogs`, publicBlogRoutes);
+app.use(`${API_BASE}/users`, userRoutes);
+app.use(`${API_BASE}/security-settings`, securitySettingsRoutes);
+app.use(`${API_BASE}/api-keys`, apiKeyRoutes);
+app.use(`${API_BASE}/audit`, auditRoutes);
+app.use(`${API_BASE}/redirects`, slugRedirectRoutes);
+app.use(`${API_BASE}/blog-categories`, blogCategoryRoutes);
+app.use(`${API_BASE}/blog-series`, blogSeriesRoutes);
+app.use(`${API_BASE}/tags`, tagRoutes);
 
 app.use((_req, res) => {
   res.status(404).json({ message: "Route not found" });
@@ -0,0 +1,48 @@
+const trimTrailingSlash = (value: string) => value.trim().replace(/\/+$/, "");
+
+// URL trang quản trị (frontend) dùng cho link trong email
+export const ADMIN_APP_URL = trimTrailingSlash(
+  process.env.ADMIN_APP_URL || "http://localhost:3000"
+);
+
+// Danh sách origin được phép (CORS + kiểm tra Origin cho CSRF)
+export const CORS_ORIGINS = (process.env.CORS_ORIGINS || "")
+  .split(",")
+  .map((s) => trimTrailingSlash(s))
+  .filter(Boolean);
+
+// Mẫu URL trang xem trước trên frontend, vd. https://dropincafe.vn/preview?token={token}
+export const BLOG_PREVIEW_URL = process.env.BLOG_PREVIEW_URL?.trim() || "";
+
+// Website public (frontend), dùng cho link trong feed / sitemap
+export const PUBLIC_SITE_URL = trimTrailingSlash(
+  process.env.PUBLIC_SITE_URL || "http://localhost:3000"
+);
+export const SITE_NAME = process.env.SITE_NAME?.trim() || "DropInCafe";
+
+// Origin được gọi API kèm cookie. Thiếu CORS_ORIGINS thì chỉ cho frontend mặc
+// định (dev); production bắt buộc cấu hình (xem assertProductionSecrets)
+export const ALLOWED_ORIGINS = CORS_ORIGINS.length
+  ? CORS_ORIGINS
+  : Array.from(new Set([ADMIN_APP_URL, PUBLIC_SITE_URL]));
+
+// Đường dẫn trang trên frontend, hỗ trợ {locale} và {slug}
+export const HOME_PATH = process.env.HOME_PATH || "/{locale}";
+export const BLOG_INDEX_PATH = process.env.BLOG_INDEX_PATH || "/{locale}/blog";
+export const BLOG_POST_PATH =
+  process.env.BLOG_POST_PATH || "/{locale}/blog/{slug}";
+export const PRODUCT_PATH =
+  process.env.PRODUCT_PATH || "/{locale}/products/{slug}";
+
+// Nơi frontend proxy /sitemap.xml, /sitemaps/* và /robots.txt về API
+export const SITEMAP_BASE_URL = trimTrailingSlash(
+  process.env.SITEMAP_BASE_URL || PUBLIC_SITE_URL
+);
+// Chỉ cho bot index khi production (hoặc bật rõ ràng)
+export const ROBOTS_ALLOW_INDEXING = process.env.ROBOTS_ALLOW_INDEXING
+  ? process.env.ROBOTS_ALLOW_INDEXING === "true"
+  : process.env.NODE_ENV === "production";
+
+// Múi giờ để chia ngày khi thống kê lượt xem
+export const ANALYTICS_TIMEZONE =
+  process.env.ANALYTICS_TIMEZONE?.trim() || "Asia/Ho_Chi_Minh";
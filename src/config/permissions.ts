@@ -0,0 +1,75 @@
+import type { Role } from "../models/User";
+
+export type Permission =
+  | "blogs:read"
+  | "blogs:write"
+  | "blogs:review"
+  | "blogs:publish"
+  | "blogs:delete"
+  | "products:read"
+  | "products:write"
+  | "products:delete"
+  | "homeContent:write"
+  | "uploads:write"
+  | "redirects:manage"
+  | "tags:manage"
+  | "users:manage"
+  | "apiKeys:manage"
+  | "audit:read";
+
+export const ALL_PERMISSIONS: Permission[] = [
+  "blogs:read",
+  "blogs:write",
+  "blogs:review",
+  "blogs:publish",
+  "blogs:delete",
+  "products:read",
+  "products:write",
+  "products:delete",
+  "homeContent:write",
+  "uploads:write",
+  "redirects:manage",
+  "tags:manage",
+  "users:manage",
+  "apiKeys:manage",
+  "audit:read",
+];
+
+// Scope có thể cấp cho API key (không cho quản lý user / key qua máy)
+const NON_API_KEY_PERMISSIONS: Permission[] = [
+  "users:manage",
+  "apiKeys:manage",
+  "audit:read",
+];
+export const API_KEY_SCOPES: Permission[] = ALL_PERMISSIONS.filter(
+  (p) => !NON_API_KEY_PERMISSIONS.includes(p)
+);
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  super_admin: ALL_PERMISSIONS,
+  editor: [
+    "blogs:read",
+    "blogs:write",
+    "products:read",
+    "products:write",
+    "uploads:write",
+  ],
+};
+
+export type Principal = {
+  role?: string;
+  scopes?: string[];
+};
+
+/**
+ * User đăng nhập: quyền theo role. API key: quyền theo scopes của key.
+ */
+export function hasPermission(
+  principal: Principal | undefined,
+  permission: Permission
+): boolean {
+  if (!principal) return false;
+  if (principal.scopes) return principal.scopes.includes(permission);
+  const granted = ROLE_PERMISSIONS[principal.role as Role];
+  return !!granted && granted.includes(permission);
+}
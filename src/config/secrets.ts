@@ -0,0 +1,53 @@
+import { allowsHs256AccessTokens, getJwtKeyRing } from "../utils/jwtKeys";
+
+// Giá trị fallback trong code, chỉ dùng cho môi trường dev
+const DEV_DEFAULTS: Record<string, string> = {
+  JWT_ACCESS_SECRET: "access_secret_dev",
+  JWT_REFRESH_SECRET: "refresh_secret_dev",
+  SECRET_BOX_KEY: "secret_box_key_dev",
+};
+
+const MIN_SECRET_LENGTH = 32;
+
+/**
+ * Kiểm tra cấu hình secret khi khởi động. Production không được chạy với
+ * secret mặc định hoặc thiếu, hay thiếu CORS_ORIGINS (cookie SameSite=None cần
+ * danh sách origin rõ ràng), hay thiếu JWT keys mà không đặt JWT_ALLOW_HS256;
+ * key JWT lỗi sẽ throw ngay tại đây.
+ */
+export function assertProductionSecrets(env: NodeJS.ProcessEnv = process.env) {
+  const ring = getJwtKeyRing();
+  if ((env.NODE_ENV || "development") !== "production") return;
+
+  const problems: string[] = [];
+  for (const [name, devValue] of Object.entries(DEV_DEFAULTS)) {
+    const value = env[name]?.trim();
+    if (!value || value === devValue) {
+      problems.push(`${name} is missing or uses the development default`);
+    } else if (value.length < MIN_SECRET_LENGTH) {
+      console.warn(
+        `[SECURITY] ${name} is shorter than ${MIN_SECRET_LENGTH} characters`
+      );
+    }
+  }
+
+  if (!env.CORS_ORIGINS?.trim()) {
+    problems.push("CORS_ORIGINS must list the allowed frontend origins");
+  }
+
+  if (!ring.active && !allowsHs256AccessTokens(env)) {
+    problems.push(
+      "JWT_KEYS_DIR/JWT_KEYS must be configured (or set JWT_ALLOW_HS256=true to sign access tokens with HS256)"
+    );
+  }
+
+  if (problems.length) {
+    throw new Error(`Refusing to start in production: ${problems.join("; ")}`);
+  }
+
+  if (!ring.active) {
+    console.warn(
+      "[SECURITY] No JWT_KEYS_DIR/JWT_KEYS configured; access tokens are signed with HS256 (JWT_ALLOW_HS256)"
+    );
+  }
+}
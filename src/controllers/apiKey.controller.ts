@@ -0,0 +1,134 @@
+import { Request, Response } from "express";
+import { apiKeyRepo } from "../repositories/apiKey.repo";
+import { API_KEY_SCOPES, type Permission } from "../config/permissions";
+import type { AuthAdminRequest } from "../middlewares/authAdmin";
+
+const parseScopes = (input: any): Permission[] | null => {
+  if (
+    !Array.isArray(input) ||
+    input.length === 0 ||
+    !input.every((s) => API_KEY_SCOPES.includes(s))
+  ) {
+    return null;
+  }
+  return Array.from(new Set(input as Permission[]));
+};
+
+const parseExpiresAt = (input: any): Date | null | undefined => {
+  if (input === undefined) return undefined;
+  if (input === null) return null;
+  const d = new Date(input);
+  if (Number.isNaN(d.valueOf()) || d <= new Date()) return undefined;
+  return d;
+};
+
+const invalidScopesMessage = `scopes must be a non-empty array of: ${API_KEY_SCOPES.join(
+  ", "
+)}`;
+
+export const apiKeyController = {
+  async listApiKeys(req: Request, res: Response) {
+    try {
+      const items = await apiKeyRepo.list(req.query.includeRevoked === "true");
+      res.json({ items, scopes: API_KEY_SCOPES });
+    } catch (err: any) {
+      console.error("[API KEY LIST]", err);
+      res.status(500).json({ message: "Failed to list API keys" });
+    }
+  },
+
+  async createApiKey(req: AuthAdminRequest, res: Response) {
+    try {
+      const body = req.body || {};
+
+      const name = typeof body.name === "string" ? body.name.trim() : "";
+      if (!name) {
+        return res.status(400).json({ message: "name is required" });
+      }
+
+      const scopes = parseScopes(body.scopes);
+      if (!scopes) {
+        return res.status(400).json({ message: invalidScopesMessage });
+      }
+
+      const expiresAt = parseExpiresAt(body.expiresAt);
+      if (expiresAt === undefined && body.expiresAt !== undefined) {
+        return res
+          .status(400)
+          .json({ message: "expiresAt must be a future date" });
+      }
+
+      const { key, doc } = await apiKeyRepo.create({
+        name,
+        scopes,
+        expiresAt: expiresAt ?? null,
+        createdBy: req.adminUser.id,
+      });
+
+      const obj: any = doc.toObject();
+      delete obj.keyHash;
+
+      // Key thô chỉ trả về đúng một lần
+      res.status(201).json({ ...obj, key });
+    } catch (err: any) {
+      console.error("[API KEY CREATE]", err);
+      res
+        .status(400)
+        .json({ message: err?.message || "Create API key failed" });
+    }
+  },
+
+  async updateApiKey(req: Request, res: Response) {
+    try {
+      const body = req.body || {};
+      const data: any = {};
+
+      if (body.name !== undefined) {
+        if (typeof body.name !== "string" || !body.name.trim()) {
+          return res.status(400).json({ message: "name must be a string" });
+        }
+        data.name = body.name.trim();
+      }
+
+      if (body.scopes !== undefined) {
+        const scopes = parseScopes(body.scopes);
+        if (!scopes) {
+          return res.status(400).json({ message: invalidScopesMessage });
+        }
+        data.scopes = scopes;
+      }
+
+      if (body.expiresAt !== undefined) {
+        const expiresAt = parseExpiresAt(body.expiresAt);
+        if (expiresAt === undefined) {
+          return res
+            .status(400)
+            .json({ message: "expiresAt must be a future date" });
+        }
+        data.expiresAt = expiresAt;
+      }
+
+      const updated = await apiKeyRepo.update(req.params.id, data);
+      if (!updated) {
+        return res.status(404).json({ message: "Not found" });
+      }
+      res.json(updated);
+    } catch (err: any) {
+      console.error("[API KEY UPDATE]", err);
+      res.status(400).json({ message: err?.message || "Update failed" });
+    }
+  },
+
+  async revokeApiKey(req: Request, res: Response) {
+    try {
+      const revoked = await apiKeyRepo.revoke(req.params.id);
+      if (!revoked) {
+        return res.status(404).json({ message: "Not found" });
+      }
+      res.json({ message: "API key revoked" });
+    } catch (err: any) {
+      console.error("[API KEY REVOKE]", err);
+      res.status(400).json({ message: err?.message || "Revoke failed" });
+    }
+  },
+};
@@ -0,0 +1,71 @@
+import { Request, Response } from "express";
+import { auditRepo } from "../repositories/audit.repo";
+import type { AuditAction, AuditEntityType } from "../models/AuditLog";
+
+const ACTIONS = new Set<AuditAction>([
+  "create",
+  "update",
+  "delete",
+  "publish",
+  "archive",
+  "schedule",
+  "submit",
+  "approve",
+  "reject",
+  "restore",
+  "upload",
+]);
+const ENTITY_TYPES = new Set<AuditEntityType>([
+  "blog",
+  "product",
+  "homeContent",
+  "upload",
+  "redirect",
+  "blogCategory",
+  "blogSeries",
+  "tag",
+]);
+
+const parseDate = (input: any) => {
+  if (!input) return undefined;
+  const d = new Date(String(input));
+  return Number.isNaN(d.valueOf()) ? null : d;
+};
+
+export const auditController = {
+  async listAuditLogs(req: Request, res: Response) {
+    try {
+      const { page, limit, actorId, entityType, entityId, action, from, to } =
+        req.query as any;
+
+      if (action !== undefined && !ACTIONS.has(action)) {
+        return res.status(400).json({ message: "Invalid action" });
+      }
+      if (entityType !== undefined && !ENTITY_TYPES.has(entityType)) {
+        return res.status(400).json({ message: "Invalid entityType" });
+      }
+
+      const fromDate = parseDate(from);
+      const toDate = parseDate(to);
+      if (fromDate === null || toDate === null) {
+        return res.status(400).json({ message: "Invalid date range" });
+      }
+
+      const result = await auditRepo.list({
+        page: Math.max(Number(page) || 1, 1),
+        limit: Number(limit) || 50,
+        actorId: actorId ? String(actorId) : undefined,
+        entityType,
+        entityId: entityId ? String(entityId) : undefined,
+        action,
+        from: fromDate,
+        to: toDate,
+      });
+
+      res.json(result);
+    } catch (err: any) {
+      console.error("[AUDIT LIST]", err);
+      res.status(500).json({ message: "Failed to list audit logs" });
+    }
+  },
+};
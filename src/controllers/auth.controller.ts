@@ -1,14 +1,170 @@
 import { Request, Response } from "express";
 import { userRepo } from "../repositories/user.repo";
-import { verifyPassword } from "../utils/password";
+import {
+  hashPassword,
+  validatePassword,
+  verifyPassword,
+} from "../utils/password";
 import {
   clearAuthCookies,
+  refreshTokenExpiresAt,
   setAuthCookies,
+  setCsrfCookie,
+  CSRF_COOKIE,
   signAccessToken,
   signRefreshToken,
+  signTwoFactorChallenge,
   verifyRefreshToken,
+  verifyTwoFactorChallenge,
 } from "../utils/jwt";
 import type { AuthAdminRequest } from "../middlewares/authAdmin";
+import type { IUser } from "../models/User";
+import { getGoogleIdTokenVerifier } from "../services/googleAuth";
+import { passwordResetRepo } from "../repositories/passwordReset.repo";
+import { mailer } from "../services/mailer";
+import { mailTemplates } from "../services/mailTemplates";
+import { ADMIN_APP_URL } from "../config/app";
+import { sessionRepo } from "../repositories/session.repo";
+import { loginHistoryRepo } from "../repositories/loginHistory.repo";
+import { twoFactorService } from "../services/twoFactor";
+import { generateToken } from "../utils/token";
+import type { LoginFailureReason, LoginMethod } from "../models/LoginHistory";
+import {
+  describeDevice,
+  getClientIp,
+  getUserAgent,
+} from "../utils/requestInfo";
+
+const RESET_TTL_MINUTES = Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 30;
+const LOGIN_MAX_FAILED = Number(process.env.LOGIN_MAX_FAILED_ATTEMPTS) || 5;
+const LOGIN_FAILED_WINDOW_MS =
+  (Number(process.env.LOGIN_FAILED_WINDOW_MINUTES) || 15) * 60 * 1000;
+const LOGIN_LOCK_MS =
+  (Number(process.env.LOGIN_LOCK_MINUTES) || 15) * 60 * 1000;
+
+function getRefreshTokenFromRequest(req: Request): string | null {
+  const tokenFromCookie = (req.cookies && req.cookies.refresh_token) || null;
+  const tokenFromBody =
+    (req.body && (req.body.refreshToken as string | undefined)) || null;
+  return tokenFromCookie || tokenFromBody;
+}
+
+/**
+ * Phát access + refresh token, lưu refresh token (đã hash) vào session.
+ * Truyền `familyId` khi rotate để giữ nguyên phiên đăng nhập.
+ */
+async function issueTokens(
+  req: Request,
+  res: Response,
+  user: IUser,
+  familyId: string = sessionRepo.newFamilyId()
+) {
+  const payload = {
+    sub: user.id,
+    role: user.role,
+    sid: familyId,
+  };
+
+  const accessToken = signAccessToken(payload);
+  const refreshToken = signRefreshToken(payload);
+
+  const userAgent = getUserAgent(req);
+  await sessionRepo.create(
+    user.id,
+    familyId,
+    refreshToken,
+    refreshTokenExpiresAt(),
+    { userAgent, device: describeDevice(userAgent), ip: getClientIp(req) }
+  );
+
+  setAuthCookies(res, accessToken, refreshToken);
+
+  return { accessToken, familyId };
+}
+
+/**
+ * Token CSRF (double-submit). Giữ token hiện có để nhiều tab dùng chung cookie;
+ * tạo mới khi đăng nhập (`fresh`) để không dùng lại token cài sẵn từ trước.
+ */
+function issueCsrfToken(req: Request, res: Response, fresh = false) {
+  const existing = req.cookies?.[CSRF_COOKIE];
+  const csrfToken =
+    !fresh && typeof existing === "string" && /^[a-f0-9]{64}$/.test(existing)
+      ? existing
+      : generateToken();
+  setCsrfCookie(res, csrfToken);
+  return csrfToken;
+}
+
+function recordLogin(
+  req: Request,
+  method: LoginMethod,
+  email: string | undefined,
+  user: IUser | null,
+  reason?: LoginFailureReason
+) {
+  return loginHistoryRepo.record({
+    userId: user?.id,
+    email: user?.email || email,
+    method,
+    success: !reason,
+    reason,
+    ip: getClientIp(req),
+    userAgent: getUserAgent(req),
+  });
+}
+
+function respondLocked(res: Response, lockedUntil: Date) {
+  const retryAfter = Math.max(
+    Math.ceil((lockedUntil.getTime() - Date.now()) / 1000),
+    1
+  );
+  res.setHeader("Retry-After", String(retryAfter));
+  return res.status(429).json({
+    message: "Account is temporarily locked due to too many failed attempts",
+    lockedUntil,
+  });
+}
+
+async function issueSession(req: Request, res: Response, user: IUser) {
+  await issueTokens(req, res, user);
+  const csrfToken = issueCsrfToken(req, res, true);
+
+  user.lastLoginAt = new Date();
+  await user.save();
+
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    csrfToken,
+  };
+}
+
+/**
+ * Bước cuối của login: nếu user bật 2FA thì trả challenge token thay vì cookie
+ */
+async function completeLogin(
+  req: Request,
+  res: Response,
+  user: IUser,
+  method: LoginMethod,
+  email?: string
+) {
+  if (user.twoFactor?.enabled) {
+    await user.save();
+    return res.json({
+      twoFactorRequired: true,
+      challengeToken: signTwoFactorChallenge(user.id, method),
+    });
+  }
+
+  const result = await issueSession(req, res, user);
+  await recordLogin(req, method, email, user);
+
+  return res.json(result);
+}
 
 export const authController = {
   login: async (req: Request, res: Response) => {
@@ -26,44 +182,178 @@ export const authController = {
 
       const user = await userRepo.getByEmail(email);
       if (!user || user.provider !== "local") {
+        await recordLogin(req, "password", email, user, "invalid_credentials");
         return res.status(401).json({ message: "Invalid credentials" });
       }
 
+      if (user.lockedUntil && user.lockedUntil > new Date()) {
+        await recordLogin(req, "password", email, user, "locked");
+        return respondLocked(res, user.lockedUntil);
+      }
+
       const ok = await verifyPassword(password, user.passwordHash || "");
       if (!ok) {
+        await recordLogin(req, "password", email, user, "invalid_credentials");
+        const updated = await userRepo.registerFailedLogin(
+          user.id,
+          LOGIN_MAX_FAILED,
+          LOGIN_FAILED_WINDOW_MS,
+          LOGIN_LOCK_MS
+        );
+        if (updated?.lockedUntil && updated.lockedUntil > new Date()) {
+          return respondLocked(res, updated.lockedUntil);
+        }
         return res.status(401).json({ message: "Invalid credentials" });
       }
 
       if (!user.isActive) {
+        await recordLogin(req, "password", email, user, "inactive");
         return res
           .status(403)
           .json({ message: "Account is inactive. Please contact admin." });
       }
 
-      const payload = {
-        sub: user.id,
-        role: user.role,
+      user.failedLoginAttempts = 0;
+      user.firstFailedLoginAt = null;
+      user.lockedUntil = null;
+      return completeLogin(req, res, user, "password", email);
+    } catch (err) {
+      console.error("auth.login error", err);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  },
+
+  googleLogin: async (req: Request, res: Response) => {
+    try {
+      const { idToken } = (req.body || {}) as { idToken?: string };
+      if (!idToken || typeof idToken !== "string") {
+        return res.status(400).json({ message: "idToken is required" });
+      }
+
+      let profile;
+      try {
+        profile = await getGoogleIdTokenVerifier().verify(idToken);
+      } catch (err: any) {
+        if (err?.code === "GOOGLE_NOT_CONFIGURED") {
+          return res.status(503).json({ message: err.message });
+        }
+        console.warn("auth.googleLogin verify failed:", err?.message);
+        await recordLogin(
+          req,
+          "google",
+          undefined,
+          null,
+          "invalid_credentials"
+        );
+        return res.status(401).json({ message: "Invalid Google token" });
+      }
+
+      // Chỉ liên kết với user đã tồn tại, không tự tạo admin mới
+      const user =
+        (await userRepo.getByGoogleId(profile.sub)) ||
+        (await userRepo.getByEmail(profile.email));
+      if (!user || (user.googleId && user.googleId !== profile.sub)) {
+        await recordLogin(
+          req,
+          "google",
+          profile.email,
+          user,
+          "invalid_credentials"
+        );
+        return res.status(401).json({ message: "Invalid credentials" });
+      }
+
+      if (user.lockedUntil && user.lockedUntil > new Date()) {
+        await recordLogin(req, "google", profile.email, user, "locked");
+        return respondLocked(res, user.lockedUntil);
+      }
+
+      if (!user.isActive) {
+        await recordLogin(req, "google", profile.email, user, "inactive");
+        return res
+          .status(403)
+          .json({ message: "Account is inactive. Please contact admin." });
+      }
+
+      if (!user.googleId) {
+        user.googleId = profile.sub;
+      }
+      if (!user.name && profile.name) {
+        user.name = profile.name;
+      }
+
+      return completeLogin(req, res, user, "google", profile.email);
+    } catch (err) {
+      console.error("auth.googleLogin error", err);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  },
+
+  verifyTwoFactor: async (req: Request, res: Response) => {
+    try {
+      const { challengeToken, code, recoveryCode } = (req.body || {}) as {
+        challengeToken?: string;
+        code?: string;
+        recoveryCode?: string;
       };
 
-      const accessToken = signAccessToken(payload);
-      const refreshToken = signRefreshToken(payload);
+      if (!challengeToken || (!code && !recoveryCode)) {
+        return res.status(400).json({
+          message: "challengeToken and code (or recoveryCode) are required",
+        });
+      }
 
-      setAuthCookies(res, accessToken, refreshToken);
+      const challenge = verifyTwoFactorChallenge(challengeToken);
+      if (!challenge?.sub) {
+        return res
+          .status(401)
+          .json({ message: "Challenge expired. Please log in again." });
+      }
+      const method = (challenge.method as LoginMethod) || "password";
 
-      user.lastLoginAt = new Date();
-      await user.save();
+      const user = await userRepo.getById(challenge.sub);
+      if (!user || !user.isActive || !user.twoFactor?.enabled) {
+        return res.status(401).json({ message: "Invalid credentials" });
+      }
+
+      if (user.lockedUntil && user.lockedUntil > new Date()) {
+        await recordLogin(req, method, undefined, user, "locked");
+        return respondLocked(res, user.lockedUntil);
+      }
+
+      const ok = code
+        ? twoFactorService.verifyCode(user, code)
+        : twoFactorService.consumeRecoveryCode(user, recoveryCode);
+      if (!ok) {
+        await recordLogin(req, method, undefined, user, "invalid_credentials");
+        const updated = await userRepo.registerFailedLogin(
+          user.id,
+          LOGIN_MAX_FAILED,
+          LOGIN_FAILED_WINDOW_MS,
+          LOGIN_LOCK_MS
+        );
+        if (updated?.lockedUntil && updated.lockedUntil > new Date()) {
+          return respondLocked(res, updated.lockedUntil);
+        }
+        return res.status(401).json({ message: "Invalid code" });
+      }
+
+      user.failedLoginAttempts = 0;
+      user.firstFailedLoginAt = null;
+      user.lockedUntil = null;
+      const result = await issueSession(req, res, user);
+      await recordLogin(req, method, undefined, user);
 
       return res.json({
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role,
+        ...result,
+        recoveryCodesRemaining: twoFactorService.remainingRecoveryCodes(user),
       });
     } catch (err) {
-      console.error("auth.login error", err);
+      console.error("auth.verifyTwoFactor error", err);
       return res.status(500).json({ message: "Internal server error" });
     }
   },
+
   me: async (req: AuthAdminRequest, res: Response) => {
     try {
       if (!req.adminUser) {
@@ -87,8 +377,16 @@ export const authController = {
     }
   },
 
-  logout: async (_req: Request, res: Response) => {
+  logout: async (req: Request, res: Response) => {
     try {
+      const token = getRefreshTokenFromRequest(req);
+      if (token) {
+        const session = await sessionRepo.findFamilyByToken(token);
+        if (session) {
+          await sessionRepo.revokeFamily(session.familyId, "logout");
+        }
+      }
+
       clearAuthCookies(res);
       return res.json({ message: "Logged out" });
     } catch (err) {
@@ -99,12 +397,7 @@ export const authController = {
 
   refresh: async (req: Request, res: Response) => {
     try {
-      const tokenFromCookie =
-        (req.cookies && req.cookies.refresh_token) || null;
-      const tokenFromBody =
-        (req.body && (req.body.refreshToken as string | undefined)) || null;
-
-      const token = tokenFromCookie || tokenFromBody;
+      const token = getRefreshTokenFromRequest(req);
 
       if (!token) {
         return res.status(401).json({ message: "No refresh token" });
@@ -115,23 +408,241 @@ export const authController = {
         return res.status(401).json({ message: "Invalid refresh token" });
       }
 
+      const rotation = await sessionRepo.rotate(token);
+      if (rotation.status === "reused") {
+        console.warn(
+          `auth.refresh: refresh token reuse detected for user ${rotation.userId}, family ${rotation.familyId} revoked`
+        );
+        clearAuthCookies(res);
+        return res.status(401).json({ message: "Refresh token reused" });
+      }
+      if (rotation.status !== "ok" || rotation.userId !== payload.sub) {
+        return res.status(401).json({ message: "Invalid refresh token" });
+      }
+
       const user = await userRepo.getById(payload.sub);
       if (!user || !user.isActive) {
+        await sessionRepo.revokeFamily(rotation.familyId, "user_inactive");
         return res.status(401).json({ message: "User not found or inactive" });
       }
 
-      const newPayload = { sub: user.id, role: user.role };
-      const accessToken = signAccessToken(newPayload);
-      const refreshToken = signRefreshToken(newPayload);
-
-      setAuthCookies(res, accessToken, refreshToken);
+      const { accessToken } = await issueTokens(
+        req,
+        res,
+        user,
+        rotation.familyId
+      );
 
       return res.json({
         accessToken,
+        csrfToken: issueCsrfToken(req, res),
       });
     } catch (err) {
       console.error("auth.refresh error", err);
       return res.status(500).json({ message: "Internal server error" });
     }
   },
+
+  // Cấp token CSRF cho frontend (ví dụ sau khi reload trang)
+  csrf: async (req: Request, res: Response) => {
+    try {
+      return res.json({ csrfToken: issueCsrfToken(req, res) });
+    } catch (err) {
+      console.error("auth.csrf error", err);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  },
+
+  listSessions: async (req: AuthAdminRequest, res: Response) => {
+    try {
+      if (!req.adminUser) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const items = await sessionRepo.listActive(req.adminUser.id);
+      return res.json({
+        items: items.map((item) => ({
+          ...item,
+          current: item.id === req.adminUser.sessionId,
+        })),
+      });
+    } catch (err) {
+      console.error("auth.listSessions error", err);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  },
+
+  revokeSession: async (req: AuthAdminRequest, res: Response) => {
+    try {
+      if (!req.adminUser) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const revoked = await sessionRepo.revokeForUser(
+        req.adminUser.id,
+        req.params.id
+      );
+      if (!revoked) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      if (req.params.id === req.adminUser.sessionId) {
+        clearAuthCookies(res);
+      }
+
+      return res.json({ message: "Session revoked" });
+    } catch (err) {
+      console.error("auth.revokeSession error", err);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  },
+
+  forgotPassword: async (req: Request, res: Response) => {
+    // Luôn trả cùng một response để không lộ email nào tồn tại
+    const genericResponse = {
+      message: "If the account exists, a reset link has been sent",
+    };
+
+    try {
+      const { email } = (req.body || {}) as { email?: string };
+      if (!email || typeof email !== "string") {
+        return res.status(400).json({ message: "Email is required" });
+      }
+
+      const user = await userRepo.getByEmail(email.trim());
+      if (!user || !user.isActive || user.provider !== "local") {
+        return res.json(genericResponse);
+      }
+
+      const { token } = await passwordResetRepo.issue(
+        user.id,
+        RESET_TTL_MINUTES * 60 * 1000,
+        req.ip
+      );
+
+      const url = `${ADMIN_APP_URL}/reset-password?token=${encodeURIComponent(
+        token
+      )}`;
+      await mailer
+        .send({
+          to: user.email,
+          ...mailTemplates.passwordReset({
+            name: user.name,
+            url,
+            expiresInMinutes: RESET_TTL_MINUTES,
+          }),
+        })
+        .catch((err) => console.error("auth.forgotPassword mail error", err));
+
+      return res.json(genericResponse);
+    } catch (err) {
+      console.error("auth.forgotPassword error", err);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  },
+
+  resetPassword: async (req: Request, res: Response) => {
+    try {
+      const { token, password } = (req.body || {}) as {
+        token?: string;
+        password?: string;
+      };
+
+      if (!token || typeof token !== "string") {
+        return res.status(400).json({ message: "token is required" });
+      }
+
+      const passwordError = validatePassword(password);
+      if (passwordError) {
+        return res.status(400).json({ message: passwordError });
+      }
+
+      const record = await passwordResetRepo.consume(token);
+      if (!record) {
+        return res
+          .status(400)
+          .json({ message: "Reset token is invalid or has expired" });
+      }
+
+      const user = await userRepo.getById(String(record.user));
+      if (!user || !user.isActive) {
+        return res
+          .status(400)
+          .json({ message: "Reset token is invalid or has expired" });
+      }
+
+      user.passwordHash = await hashPassword(password);
+      await user.save();
+      await passwordResetRepo.revokeAllForUser(user.id);
+      await sessionRepo.revokeAllForUser(user.id, "password_reset");
+
+      await mailer
+        .send({
+          to: user.email,
+          ...mailTemplates.passwordChanged({ name: user.name }),
+        })
+        .catch((err) => console.error("auth.resetPassword mail error", err));
+
+      return res.json({ message: "Password has been reset" });
+    } catch (err) {
+      console.error("auth.resetPassword error", err);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  },
+
+  changePassword: async (req: AuthAdminRequest, res: Response) => {
+    try {
+      if (!req.adminUser) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const { currentPassword, newPassword } = (req.body || {}) as {
+        currentPassword?: string;
+        newPassword?: string;
+      };
+
+      if (!currentPassword) {
+        return res.status(400).json({ message: "currentPassword is required" });
+      }
+
+      const passwordError = validatePassword(newPassword);
+      if (passwordError) {
+        return res.status(400).json({ message: passwordError });
+      }
+
+      const user = await userRepo.getById(req.adminUser.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const ok = await verifyPassword(currentPassword, user.passwordHash || "");
+      if (!ok) {
+        return res
+          .status(400)
+          .json({ message: "Current password is incorrect" });
+      }
+
+      user.passwordHash = await hashPassword(newPassword);
+      await user.save();
+      await passwordResetRepo.revokeAllForUser(user.id);
+      // Giữ phiên hiện tại, đăng xuất mọi thiết bị khác
+      await sessionRepo.revokeAllForUser(
+        user.id,
+        "password_changed",
+        req.adminUser.sessionId
+      );
+
+      await mailer
+        .send({
+          to: user.email,
+          ...mailTemplates.passwordChanged({ name: user.name }),
+        })
+        .catch((err) => console.error("auth.changePassword mail error", err));
+
+      return res.json({ message: "Password changed" });
+    } catch (err) {
+      console.error("auth.changePassword error", err);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  },
 };
@@ -5,11 +5,36 @@ import { Types } from "mongoose";
 import { blogRepo } from "../repositories/blog.repo";
 import { detectLocale, localizeDoc } from "../i18n/localize";
 import { DEFAULT_LOCALE, normalizeLocale, type Locale } from "../i18n/types";
-import type { BlogStatus } from "../models/Blog";
+import type { BlogStatus, IBlog } from "../models/Blog";
 import type { AuthAdminRequest } from "../middlewares/authAdmin";
+import { hasPermission, type Permission } from "../config/permissions";
+import { audit } from "../services/audit";
+import {
+  ensureBlogRevisionBaseline,
+  recordBlogRevision,
+} from "../services/blogRevisions";
+import { signBlogPreviewToken, verifyBlogPreviewToken } from "../utils/jwt";
+import { BLOG_PREVIEW_URL } from "../config/app";
+import {
+  resolveSlugRedirect,
+  sendSlugRedirect,
+} from "../services/slugRedirects";
+import { highlightSnippet, searchTerms } from "../utils/searchText";
+import { trackBlogView } from "../services/blogViews";
+import {
+  blogCategoryRepo,
+  blogSeriesRepo,
+} from "../repositories/blogTaxonomy.repo";
+import {
+  getRelatedBlogs,
+  invalidateRelatedBlogs,
+  MAX_RELATED_BLOGS,
+} from "../services/relatedBlogs";
 
 const BLOG_STATUSES = new Set<BlogStatus>([
   "draft",
+  "in_review",
+  "approved",
   "published",
   "scheduled",
   "archived",
@@ -27,10 +52,15 @@ const PUBLIC_SORTS = new Set([
   "-publishedAt",
   "sortOrder",
   "-sortOrder",
+  "seriesOrder",
+  "-seriesOrder",
 ]);
 
 const L_FIELDS = ["title", "excerpt", "seoTitle", "seoDescription"];
 const MAX_RICH_DOC_BYTES = 2 * 1024 * 1024;
+const MAX_SEARCH_QUERY_LENGTH = 200;
+const DEFAULT_PREVIEW_HOURS = 72;
+const MAX_PREVIEW_HOURS = 30 * 24;
 
 function shouldLocalize(
   req: Request<ParamsDictionary, any, any, ParsedQs, Record<string, any>>
@@ -159,6 +189,98 @@ const validateContentSize = (content: any, field: string) => {
   }
 };
 
+const sameDate = (value: any, current?: Date | null) =>
+  value != null &&
+  current != null &&
+  new Date(value).getTime() === new Date(current).getTime();
+
+/**
+ * Quyền cần thêm khi body đổi trạng thái: duyệt cần review, xuất bản cần
+ * publish. Giá trị gửi lại y như bài hiện tại (form lưu lại) không tính là đổi.
+ */
+const requiredStatusPermission = (
+  body: any,
+  before?: IBlog
+): Permission | null => {
+  const status = body.status === before?.status ? undefined : body.status;
+  const publishedAt = sameDate(body.publishedAt, before?.publishedAt)
+    ? undefined
+    : body.publishedAt;
+  const scheduledAt = sameDate(body.scheduledAt, before?.scheduledAt)
+    ? undefined
+    : body.scheduledAt;
+
+  if (status === "approved") return "blogs:review";
+  if (
+    (status !== undefined && status !== "draft" && status !== "in_review") ||
+    (publishedAt !== undefined && publishedAt !== null) ||
+    (scheduledAt !== undefined && scheduledAt !== null)
+  ) {
+    return "blogs:publish";
+  }
+  return null;
+};
+
+// Gỡ bài đang public (về draft / lưu trữ) cần publish
+const unpublishPermission = (
+  before: IBlog,
+  data: Partial<IBlog>
+): Permission | null =>
+  before.status === "published" &&
+  blogRepo.nextStatus(data, before) !== "published"
+    ? "blogs:publish"
+    : null;
+
+// category / series: null hoặc id đang tồn tại; seriesOrder là số không âm
+const validateTaxonomyRefs = async (body: any) => {
+  for (const [field, repo] of [
+    ["category", blogCategoryRepo],
+    ["series", blogSeriesRepo],
+  ] as const) {
+    if (body[field] === "") body[field] = null;
+    if (body[field] === undefined || body[field] === null) continue;
+    if (typeof body[field] !== "string" || !(await repo.exists(body[field]))) {
+      return `${field} not found`;
+    }
+  }
+
+  if (
+    body.seriesOrder !== undefined &&
+    (typeof body.seriesOrder !== "number" ||
+      !Number.isFinite(body.seriesOrder) ||
+      body.seriesOrder < 0)
+  ) {
+    return "seriesOrder must be a non-negative number";
+  }
+
+  return null;
+};
+
+// relatedPosts: id các bài khác (chưa xoá), tối đa MAX_RELATED_BLOGS bài
+const validateRelatedPosts = async (body: any, selfId?: string) => {
+  if (body.relatedPosts === undefined) return null;
+  if (
+    !Array.isArray(body.relatedPosts) ||
+    body.relatedPosts.length > MAX_RELATED_BLOGS ||
+    !body.relatedPosts.every(
+      (id: any) => typeof id === "string" && Types.ObjectId.isValid(id)
+    )
+  ) {
+    return `relatedPosts must be an array of up to ${MAX_RELATED_BLOGS} blog ids`;
+  }
+
+  const ids = Array.from(new Set<string>(body.relatedPosts));
+  if (selfId && ids.includes(selfId)) {
+    return "relatedPosts cannot include the post itself";
+  }
+  if ((await blogRepo.countActiveByIds(ids)) !== ids.length) {
+    return "relatedPosts contains unknown posts";
+  }
+
+  body.relatedPosts = ids;
+  return null;
+};
+
 const sanitizePublic = (doc: any) => {
   const sanitized = { ...doc };
   delete sanitized.content_i18n;
@@ -167,6 +289,40 @@ const sanitizePublic = (doc: any) => {
   return sanitized;
 };
 
+// Điều hướng bài trước / sau trong series (null nếu series đã tắt)
+async function buildSeriesNav(blog: any, locale: Locale) {
+  const [series, { prev, next }] = await Promise.all([
+    blogSeriesRepo.getById(String(blog.series)),
+    blogRepo.getSeriesNeighbors(blog),
+  ]);
+  if (!series || !series.isActive) return null;
+
+  const locales = buildLocalePriority(locale);
+
+  const link = (doc: any) =>
+    doc
+      ? {
+          _id: doc._id,
+          title: pickLocalizedValue(doc.title_i18n, locales),
+          slug:
+            doc.slug_i18n?.[locale] ||
+            doc.slug_i18n?.[DEFAULT_LOCALE] ||
+            doc.slug,
+          seriesOrder: doc.seriesOrder,
+        }
+      : null;
+
+  return {
+    series: {
+      _id: series._id,
+      name: pickLocalizedValue(series.name_i18n, locales),
+      slug: series.slug_i18n?.[locale] || series.slug_i18n?.[DEFAULT_LOCALE],
+    },
+    prev: link(prev),
+    next: link(next),
+  };
+}
+
 export const blogController = {
   async createBlog(req: AuthAdminRequest, res: Response) {
     try {
@@ -175,6 +331,9 @@ export const blogController = {
         return res.status(400).json({ message: "Missing JSON body" });
       }
 
+      // Thông tin duyệt bài chỉ đổi qua submit/approve/reject
+      delete body.review;
+
       if (
         !body.slug_i18n ||
         typeof body.slug_i18n?.vi !== "string" ||
@@ -222,6 +381,24 @@ export const blogController = {
         });
       }
 
+      const taxonomyError = await validateTaxonomyRefs(body);
+      if (taxonomyError) {
+        return res.status(400).json({ message: taxonomyError });
+      }
+
+      const relatedError = await validateRelatedPosts(body, req.params.id);
+      if (relatedError) {
+        return res.status(400).json({ message: relatedError });
+      }
+
+      const statusPermission = requiredStatusPermission(body);
+      if (statusPermission && !hasPermission(req.adminUser, statusPermission)) {
+        return res.status(403).json({
+          message: `Forbidden: missing permission "${statusPermission}"`,
+          permission: statusPermission,
+        });
+      }
+
       const scheduledAt = parseDateValue(body.scheduledAt);
       const publishedAt = parseDateValue(body.publishedAt);
 
@@ -245,6 +422,14 @@ export const blogController = {
           : null,
       });
 
+      await recordBlogRevision(req, doc, "create");
+      void audit(req, {
+        action: "create",
+        entityType: "blog",
+        entityId: String(doc._id),
+        after: doc,
+      });
+
       const locale =
         (req.query.locale as any) ||
         detectLocale(req.headers["accept-language"] as string);
@@ -274,6 +459,10 @@ export const blogController = {
         return res.status(400).json({ message: err.message });
       }
 
+      if (err?.code === "BLOG_INVALID_STATUS_TRANSITION") {
+        return res.status(409).json({ message: err.message, code: err.code });
+      }
+
       if (err?.code === "BLOG_CONTENT_TOO_LARGE") {
         return res.status(413).json({ message: err.message });
       }
@@ -289,6 +478,9 @@ export const blogController = {
         return res.status(400).json({ message: "Missing JSON body" });
       }
 
+      // Thông tin duyệt bài chỉ đổi qua submit/approve/reject
+      delete body.review;
+
       if (body.slug_i18n) {
         if (
           typeof body.slug_i18n?.vi !== "string" ||
@@ -330,6 +522,16 @@ export const blogController = {
         });
       }
 
+      const taxonomyError = await validateTaxonomyRefs(body);
+      if (taxonomyError) {
+        return res.status(400).json({ message: taxonomyError });
+      }
+
+      const relatedError = await validateRelatedPosts(body, req.params.id);
+      if (relatedError) {
+        return res.status(400).json({ message: relatedError });
+      }
+
       const scheduledAt = parseDateValue(body.scheduledAt);
       const publishedAt = parseDateValue(body.publishedAt);
 
@@ -341,6 +543,22 @@ export const blogController = {
         return res.status(400).json({ message: "Invalid publishedAt" });
       }
 
+      const before = await blogRepo.getById(req.params.id);
+      if (!before) {
+        return res.status(404).json({ message: "Not found" });
+      }
+
+      const statusPermission =
+        requiredStatusPermission(body, before) ||
+        unpublishPermission(before, { ...body, scheduledAt, publishedAt });
+      if (statusPermission && !hasPermission(req.adminUser, statusPermission)) {
+        return res.status(403).json({
+          message: `Forbidden: missing permission "${statusPermission}"`,
+          permission: statusPermission,
+        });
+      }
+
+      await ensureBlogRevisionBaseline(before);
       const updated = await blogRepo.update(req.params.id, {
         ...body,
         scheduledAt,
@@ -354,6 +572,18 @@ export const blogController = {
         return res.status(404).json({ message: "Not found" });
       }
 
+      await recordBlogRevision(req, updated, "update");
+      if (before?.status === "published" || updated.status === "published") {
+        invalidateRelatedBlogs();
+      }
+      void audit(req, {
+        action: "update",
+        entityType: "blog",
+        entityId: String(updated._id),
+        before,
+        after: updated,
+      });
+
       const locale =
         (req.query.locale as any) ||
         detectLocale(req.headers["accept-language"] as string);
@@ -383,6 +613,10 @@ export const blogController = {
         return res.status(400).json({ message: err.message });
       }
 
+      if (err?.code === "BLOG_INVALID_STATUS_TRANSITION") {
+        return res.status(409).json({ message: err.message, code: err.code });
+      }
+
       if (err?.code === "BLOG_CONTENT_TOO_LARGE") {
         return res.status(413).json({ message: err.message });
       }
@@ -400,6 +634,15 @@ export const blogController = {
       if (!deleted) {
         return res.status(404).json({ message: "Not found" });
       }
+      invalidateRelatedBlogs();
+
+      void audit(req, {
+        action: "delete",
+        entityType: "blog",
+        entityId: String(deleted._id),
+        meta: { soft: true },
+      });
+
       res.json({ message: "Deleted successfully" });
     } catch (err: any) {
       console.error("[BLOG DELETE]", err);
@@ -498,6 +741,8 @@ export const blogController = {
 
   async publishBlog(req: AuthAdminRequest, res: Response) {
     try {
+      const before = await blogRepo.getById(req.params.id);
+      await ensureBlogRevisionBaseline(before);
       const updated = await blogRepo.update(req.params.id, {
         status: "published",
         publishedAt: new Date(),
@@ -511,15 +756,32 @@ export const blogController = {
         return res.status(404).json({ message: "Not found" });
       }
 
+      await recordBlogRevision(req, updated, "publish");
+      invalidateRelatedBlogs();
+      void audit(req, {
+        action: "publish",
+        entityType: "blog",
+        entityId: String(updated._id),
+        before,
+        after: updated,
+      });
+
       res.json(updated);
     } catch (err: any) {
       console.error("[BLOG PUBLISH]", err);
+
+      if (err?.code === "BLOG_INVALID_STATUS_TRANSITION") {
+        return res.status(409).json({ message: err.message, code: err.code });
+      }
+
       res.status(400).json({ message: err?.message || "Publish failed" });
     }
   },
 
   async archiveBlog(req: AuthAdminRequest, res: Response) {
     try {
+      const before = await blogRepo.getById(req.params.id);
+      await ensureBlogRevisionBaseline(before);
       const updated = await blogRepo.update(req.params.id, {
         status: "archived",
         updatedBy: req.adminUser?.id
@@ -531,9 +793,24 @@ export const blogController = {
         return res.status(404).json({ message: "Not found" });
       }
 
+      await recordBlogRevision(req, updated, "archive");
+      invalidateRelatedBlogs();
+      void audit(req, {
+        action: "archive",
+        entityType: "blog",
+        entityId: String(updated._id),
+        before,
+        after: updated,
+      });
+
       res.json(updated);
     } catch (err: any) {
       console.error("[BLOG ARCHIVE]", err);
+
+      if (err?.code === "BLOG_INVALID_STATUS_TRANSITION") {
+        return res.status(409).json({ message: err.message, code: err.code });
+      }
+
       res.status(400).json({ message: err?.message || "Archive failed" });
     }
   },
@@ -546,6 +823,8 @@ export const blogController = {
         return res.status(400).json({ message: "scheduledAt is required" });
       }
 
+      const before = await blogRepo.getById(req.params.id);
+      await ensureBlogRevisionBaseline(before);
       const updated = await blogRepo.update(req.params.id, {
         status: "scheduled",
         scheduledAt,
@@ -558,29 +837,62 @@ export const blogController = {
         return res.status(404).json({ message: "Not found" });
       }
 
+      await recordBlogRevision(req, updated, "schedule");
+      void audit(req, {
+        action: "schedule",
+        entityType: "blog",
+        entityId: String(updated._id),
+        before,
+        after: updated,
+      });
+
       res.json(updated);
     } catch (err: any) {
       console.error("[BLOG SCHEDULE]", err);
+
+      if (err?.code === "BLOG_INVALID_STATUS_TRANSITION") {
+        return res.status(409).json({ message: err.message, code: err.code });
+      }
+
       res.status(400).json({ message: err?.message || "Schedule failed" });
     }
   },
 
   async listPublicBlogs(req: Request, res: Response) {
     try {
-      const { page, limit, tag, sort } = req.query as any;
+      const { page, limit, tag, sort, category, series } = req.query as any;
       const locale = normalizeLocale(
         (req.query.locale as any) ||
           detectLocale(req.headers["accept-language"] as string)
       );
 
+      // category / series nhận slug theo locale hiện tại
+      const categoryDoc = category
+        ? await blogCategoryRepo.getActiveBySlug(String(category), locale)
+        : null;
+      if (category && !categoryDoc) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      const seriesDoc = series
+        ? await blogSeriesRepo.getActiveBySlug(String(series), locale)
+        : null;
+      if (series && !seriesDoc) {
+        return res.status(404).json({ message: "Series not found" });
+      }
+
+      // Trong series mặc định đọc theo thứ tự bài
+      const defaultSort = seriesDoc ? "seriesOrder" : "-publishedAt";
+
       const result = await blogRepo.listPublic({
         page: Number(page) || 1,
         limit: Number(limit) || 20,
         tag: tag ? String(tag) : undefined,
+        category: categoryDoc ? String(categoryDoc._id) : undefined,
+        series: seriesDoc ? String(seriesDoc._id) : undefined,
         sort:
           typeof sort === "string" && PUBLIC_SORTS.has(sort)
             ? (sort as any)
-            : "-publishedAt",
+            : defaultSort,
       });
 
       const itemsWithMeta = result.items.map((item: any) =>
@@ -604,6 +916,65 @@ export const blogController = {
     }
   },
 
+  // Tìm kiếm bài public; "ca phe" khớp "cà phê", snippet lấy từ plainText theo locale
+  async searchPublicBlogs(req: Request, res: Response) {
+    try {
+      const { page, limit, tag } = req.query as any;
+      const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      if (!q) {
+        return res.status(400).json({ message: "q is required" });
+      }
+      if (q.length > MAX_SEARCH_QUERY_LENGTH) {
+        return res.status(400).json({
+          message: `q must be at most ${MAX_SEARCH_QUERY_LENGTH} characters`,
+        });
+      }
+
+      const from = parseDateValue(req.query.from);
+      const to = parseDateValue(req.query.to);
+      if (
+        (req.query.from !== undefined && !from) ||
+        (req.query.to !== undefined && !to)
+      ) {
+        return res.status(400).json({ message: "Invalid from/to date" });
+      }
+
+      const locale = normalizeLocale(
+        (req.query.locale as any) ||
+          detectLocale(req.headers["accept-language"] as string)
+      );
+
+      const result = await blogRepo.searchPublic({
+        q,
+        locale,
+        page: Math.max(Number(page) || 1, 1),
+        limit: Number(limit) || 10,
+        tag: tag ? String(tag) : undefined,
+        from: from || undefined,
+        to: to || undefined,
+      });
+
+      const terms = searchTerms(q);
+      const items = result.items.map((item: any) => {
+        const localized = sanitizePublic(
+          localizeBlog(attachMetaFields(item, locale), locale, {
+            includeContent: false,
+          })
+        );
+        const snippet = highlightSnippet(localized.plainText, terms);
+        delete localized.toc;
+        delete localized.plainText;
+        return { ...localized, snippet };
+      });
+
+      res.setHeader("Vary", "Accept-Language");
+      res.json({ ...result, q, items });
+    } catch (err: any) {
+      console.error("[BLOG SEARCH PUBLIC]", err);
+      res.status(500).json({ message: "Failed to search blogs" });
+    }
+  },
+
   async getPublicBlogBySlug(req: Request, res: Response) {
     try {
       const locale = normalizeLocale(
@@ -614,6 +985,10 @@ export const blogController = {
       const { slug } = req.params;
       const blog = await blogRepo.getPublicBySlug(slug, locale);
       if (!blog) {
+        const target = await resolveSlugRedirect("blog", slug, locale);
+        if (target) {
+          return sendSlugRedirect(req, res, target, locale);
+        }
         return res.status(404).json({ message: "Not found" });
       }
 
@@ -622,6 +997,9 @@ export const blogController = {
       const localized = localizeBlog(withMeta, locale, {
         includeContent: true,
       });
+      if (obj.series) {
+        localized.seriesNav = await buildSeriesNav(obj, locale);
+      }
 
       res.setHeader("Vary", "Accept-Language");
       return res.json(sanitizePublic(localized));
@@ -631,13 +1009,138 @@ export const blogController = {
     }
   },
 
+  // Gợi ý "có thể bạn cũng thích": bài ghim trước, sau đó theo điểm liên quan
+  async getRelatedPublicBlogs(req: Request, res: Response) {
+    try {
+      const locale = normalizeLocale(
+        (req.query.locale as any) ||
+          detectLocale(req.headers["accept-language"] as string)
+      );
+      const limit = Math.min(
+        Math.max(Number(req.query.limit) || 4, 1),
+        MAX_RELATED_BLOGS
+      );
+
+      const blog = await blogRepo.getPublicBySlug(req.params.slug, locale);
+      if (!blog) {
+        return res.status(404).json({ message: "Not found" });
+      }
+
+      const related = await getRelatedBlogs(blog, locale, limit);
+      const items = related.map((item: any) => {
+        const localized = sanitizePublic(
+          localizeBlog(attachMetaFields(item, locale), locale, {
+            includeContent: false,
+          })
+        );
+        delete localized.toc;
+        delete localized.plainText;
+        return localized;
+      });
+
+      res.setHeader("Vary", "Accept-Language");
+      res.json({ items });
+    } catch (err: any) {
+      console.error("[BLOG RELATED PUBLIC]", err);
+      res.status(500).json({ message: "Failed to get related blogs" });
+    }
+  },
+
+  // Tạo link xem trước có hạn (mặc định 72 giờ, tối đa 30 ngày) cho bài ở mọi trạng thái
+  async createPreviewToken(req: AuthAdminRequest, res: Response) {
+    try {
+      const blog = await blogRepo.getById(req.params.id);
+      if (!blog) {
+        return res.status(404).json({ message: "Not found" });
+      }
+
+      const body = parseBody(req.body) || {};
+      const hours =
+        body.expiresInHours === undefined
+          ? DEFAULT_PREVIEW_HOURS
+          : Number(body.expiresInHours);
+      if (!Number.isFinite(hours) || hours <= 0 || hours > MAX_PREVIEW_HOURS) {
+        return res.status(400).json({
+          message: `expiresInHours must be between 0 and ${MAX_PREVIEW_HOURS}`,
+        });
+      }
+
+      const expiresInSeconds = Math.round(hours * 3600);
+      const token = signBlogPreviewToken(String(blog._id), expiresInSeconds);
+
+      res.status(201).json({
+        token,
+        expiresAt: new Date(Date.now() + expiresInSeconds * 1000),
+        url: BLOG_PREVIEW_URL
+          ? BLOG_PREVIEW_URL.replace("{token}", encodeURIComponent(token))
+          : null,
+      });
+    } catch (err: any) {
+      console.error("[BLOG PREVIEW TOKEN]", err);
+      res.status(500).json({ message: "Failed to create preview token" });
+    }
+  },
+
+  // Xem trước bài ở mọi trạng thái bằng preview token, hiển thị như bài đã xuất bản
+  async getPreviewBlog(req: Request, res: Response) {
+    try {
+      res.setHeader("X-Robots-Tag", "noindex, nofollow");
+      res.setHeader("Cache-Control", "private, no-store");
+
+      const token =
+        (typeof req.query.token === "string" && req.query.token) ||
+        (req.headers["x-preview-token"] as string | undefined);
+      const payload = token ? verifyBlogPreviewToken(token) : null;
+      if (!payload?.blog) {
+        return res
+          .status(401)
+          .json({ message: "Preview link is invalid or has expired" });
+      }
+
+      const blog = await blogRepo.getById(payload.blog);
+      if (!blog) {
+        return res.status(404).json({ message: "Not found" });
+      }
+
+      const locale = normalizeLocale(
+        (req.query.locale as any) ||
+          detectLocale(req.headers["accept-language"] as string)
+      );
+      const obj = (blog as any).toObject?.() || blog;
+      const withMeta = attachMetaFields(obj, locale);
+      const localized = localizeBlog(withMeta, locale, {
+        includeContent: true,
+      });
+
+      res.setHeader("Vary", "Accept-Language");
+      return res.json({ ...sanitizePublic(localized), preview: true });
+    } catch (err: any) {
+      console.error("[BLOG PREVIEW]", err);
+      res.status(500).json({ message: "Failed to get blog preview" });
+    }
+  },
+
+  // Lượt xem đã lọc bot + trùng lặp. referrer lấy từ body (document.referrer)
+  // vì header Referer của request này chính là trang bài
   async incrementViewCount(req: Request, res: Response) {
     try {
-      const updated = await blogRepo.incrementViewCount(req.params.id);
-      if (!updated) {
+      const body = parseBody(req.body) || {};
+      const locale = normalizeLocale(
+        body.locale ||
+          (req.query.locale as any) ||
+          detectLocale(req.headers["accept-language"] as string)
+      );
+      const visitorId = req.headers["x-visitor-id"] || body.visitorId;
+
+      const result = await trackBlogView(req, req.params.id, {
+        locale,
+        referrer: typeof body.referrer === "string" ? body.referrer : undefined,
+        visitorId: typeof visitorId === "string" ? visitorId : undefined,
+      });
+      if (!result) {
         return res.status(404).json({ message: "Not found" });
       }
-      res.json({ viewCount: updated.stats?.viewCount || 0 });
+      res.json(result);
     } catch (err: any) {
       console.error("[BLOG VIEW COUNT]", err);
       res.status(400).json({ message: err?.message || "Update failed" });
@@ -0,0 +1,103 @@
+import { Request, Response } from "express";
+import { isValidObjectId } from "mongoose";
+import { blogViewRepo } from "../repositories/blogView.repo";
+import { analyticsDay } from "../services/blogViews";
+import { ANALYTICS_TIMEZONE } from "../config/app";
+import type { Locale } from "../i18n/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const LOCALES = new Set<Locale>(["vi", "en"]);
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// YYYY-MM-DD hợp lệ (kể cả ngày tồn tại thật), ngược lại null
+const parseDay = (input: any) => {
+  if (typeof input !== "string" || !DAY_PATTERN.test(input)) return null;
+  const date = new Date(`${input}T00:00:00Z`);
+  return !Number.isNaN(date.valueOf()) &&
+    date.toISOString().slice(0, 10) === input
+    ? input
+    : null;
+};
+
+const shiftDay = (day: string, days: number) =>
+  new Date(new Date(`${day}T00:00:00Z`).getTime() + days * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+
+const daysBetween = (from: string, to: string) =>
+  Math.round(
+    (new Date(`${to}T00:00:00Z`).getTime() -
+      new Date(`${from}T00:00:00Z`).getTime()) /
+      DAY_MS
+  );
+
+export const blogAnalyticsController = {
+  /**
+   * Thống kê lượt xem trong [from, to] (mặc định 30 ngày gần nhất):
+   * chuỗi theo ngày (đủ ngày, ngày trống = 0), top bài và nguồn truy cập
+   */
+  async getAnalytics(req: Request, res: Response) {
+    try {
+      const { blog, locale, limit } = req.query as any;
+
+      const to =
+        req.query.to === undefined ? analyticsDay() : parseDay(req.query.to);
+      const from =
+        req.query.from === undefined
+          ? to && shiftDay(to, -(DEFAULT_RANGE_DAYS - 1))
+          : parseDay(req.query.from);
+      if (!from || !to) {
+        return res
+          .status(400)
+          .json({ message: "from/to must be dates in YYYY-MM-DD format" });
+      }
+      if (from > to) {
+        return res.status(400).json({ message: "from must not be after to" });
+      }
+      if (daysBetween(from, to) + 1 > MAX_RANGE_DAYS) {
+        return res.status(400).json({
+          message: `Range must be at most ${MAX_RANGE_DAYS} days`,
+        });
+      }
+
+      if (blog !== undefined && !isValidObjectId(blog)) {
+        return res.status(400).json({ message: "Invalid blog" });
+      }
+      if (locale !== undefined && !LOCALES.has(locale)) {
+        return res.status(400).json({ message: "locale must be vi or en" });
+      }
+
+      const filter = { from, to, blog, locale };
+      const [rows, topPosts, referrers] = await Promise.all([
+        blogViewRepo.timeSeries(filter),
+        blogViewRepo.topBlogs(
+          filter,
+          Math.min(Math.max(Number(limit) || 10, 1), 50)
+        ),
+        blogViewRepo.referrers(filter),
+      ]);
+
+      const byDay = new Map(rows.map((r) => [r._id, r.views]));
+      const series: { day: string; views: number }[] = [];
+      for (let day = from; day <= to; day = shiftDay(day, 1)) {
+        series.push({ day, views: byDay.get(day) || 0 });
+      }
+
+      res.json({
+        from,
+        to,
+        timezone: ANALYTICS_TIMEZONE,
+        total: rows.reduce((sum, r) => sum + r.views, 0),
+        series,
+        topPosts,
+        referrers: referrers.map((r) => ({ referrer: r._id, views: r.views })),
+      });
+    } catch (err: any) {
+      console.error("[BLOG ANALYTICS]", err);
+      res.status(500).json({ message: "Failed to load analytics" });
+    }
+  },
+};
@@ -0,0 +1,127 @@
+import { Request, Response } from "express";
+import { blogRepo } from "../repositories/blog.repo";
+import { detectLocale } from "../i18n/localize";
+import { DEFAULT_LOCALE, normalizeLocale, type Locale } from "../i18n/types";
+import { PUBLIC_SITE_URL, SITE_NAME } from "../config/app";
+import { blogIndexUrl, blogPostUrl } from "../utils/siteUrls";
+import {
+  guessImageType,
+  renderAtom,
+  renderRss,
+  type FeedItem,
+  type FeedMeta,
+} from "../utils/feed";
+import { sendCacheable } from "../utils/httpCache";
+
+const DEFAULT_FEED_LIMIT = 20;
+const SUMMARY_MAX_LENGTH = 300;
+
+const DESCRIPTIONS: Record<Locale, string> = {
+  vi: `Bài viết mới nhất từ ${SITE_NAME}`,
+  en: `Latest posts from ${SITE_NAME}`,
+};
+
+const pick = (value: any, locale: Locale): string =>
+  value?.[locale] || value?.[DEFAULT_LOCALE] || "";
+
+const truncate = (text: string, max: number) =>
+  text.length > max ? `${text.slice(0, max).trimEnd()}…` : text;
+
+// id ổn định theo _id để đổi slug không làm reader hiện lại bài cũ
+const entryId = (blogId: string) =>
+  `tag:${new URL(PUBLIC_SITE_URL).hostname},2024:blog/${blogId}`;
+
+function toFeedItem(blog: any, locale: Locale): FeedItem {
+  const slug = blog.slug_i18n?.[locale] || blog.slug;
+  const summary =
+    pick(blog.excerpt_i18n, locale) || pick(blog.plainText_i18n, locale);
+  const publishedAt = new Date(blog.publishedAt || blog.createdAt);
+
+  return {
+    id: entryId(String(blog._id)),
+    title: pick(blog.title_i18n, locale),
+    link: blogPostUrl(slug, locale),
+    summary: truncate(summary.trim(), SUMMARY_MAX_LENGTH),
+    author: blog.authorName || undefined,
+    publishedAt,
+    updatedAt: new Date(blog.updatedAt || publishedAt),
+    categories: blog.tags || [],
+    image: blog.coverImage?.url
+      ? { url: blog.coverImage.url, type: guessImageType(blog.coverImage.url) }
+      : undefined,
+  };
+}
+
+async function buildFeed(req: Request) {
+  const locale = normalizeLocale(
+    (req.query.locale as any) ||
+      detectLocale(req.headers["accept-language"] as string)
+  );
+  const tag = typeof req.query.tag === "string" ? req.query.tag : undefined;
+
+  const { items } = await blogRepo.listPublic({
+    limit: Number(req.query.limit) || DEFAULT_FEED_LIMIT,
+    tag,
+    sort: "-publishedAt",
+  });
+  const entries = items.map((blog) => toFeedItem(blog, locale));
+
+  const lastModified = entries.reduce<Date | null>((latest, item) => {
+    const time = Math.max(item.updatedAt.getTime(), item.publishedAt.getTime());
+    return !latest || time > latest.getTime() ? new Date(time) : latest;
+  }, null);
+
+  const meta: FeedMeta = {
+    title: tag ? `${SITE_NAME} – ${tag}` : SITE_NAME,
+    description: DESCRIPTIONS[locale],
+    link: blogIndexUrl(locale),
+    selfUrl: `${req.protocol}://${req.get("host")}${req.originalUrl}`,
+    language: locale,
+    author: SITE_NAME,
+    updatedAt: lastModified || new Date(0),
+  };
+
+  return { meta, entries, lastModified };
+}
+
+function sendFeed(
+  res: Response,
+  xml: string,
+  contentType: string,
+  lastModified: Date | null
+) {
+  res.setHeader("Vary", "Accept-Language");
+  return sendCacheable(res, xml, { contentType, lastModified });
+}
+
+export const blogFeedController = {
+  async rss(req: Request, res: Response) {
+    try {
+      const { meta, entries, lastModified } = await buildFeed(req);
+      sendFeed(
+        res,
+        renderRss(meta, entries),
+        "application/rss+xml",
+        lastModified
+      );
+    } catch (err: any) {
+      console.error("[BLOG FEED RSS]", err);
+      res.status(500).json({ message: "Failed to build feed" });
+    }
+  },
+
+  async atom(req: Request, res: Response) {
+    try {
+      const { meta, entries, lastModified } = await buildFeed(req);
+      sendFeed(
+        res,
+        renderAtom(meta, entries),
+        "application/atom+xml",
+        lastModified
+      );
+    } catch (err: any) {
+      console.error("[BLOG FEED ATOM]", err);
+      res.status(500).json({ message: "Failed to build feed" });
+    }
+  },
+};
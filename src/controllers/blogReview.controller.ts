@@ -0,0 +1,204 @@
+import { Response } from "express";
+import { Types } from "mongoose";
+import { blogRepo } from "../repositories/blog.repo";
+import { userRepo } from "../repositories/user.repo";
+import type {
+  BlogReview,
+  BlogReviewComment,
+  BlogReviewDecision,
+  BlogStatus,
+  IBlog,
+} from "../models/Blog";
+import type { AuthAdminRequest } from "../middlewares/authAdmin";
+import { audit } from "../services/audit";
+import { invalidateRelatedBlogs } from "../services/relatedBlogs";
+import {
+  ensureBlogRevisionBaseline,
+  recordBlogRevision,
+} from "../services/blogRevisions";
+import {
+  notifyReviewDecision,
+  notifyReviewers,
+} from "../services/blogReviewNotifications";
+
+type ReviewAction = "submit" | "approve" | "reject";
+
+const ACTION_RULES: Record<
+  ReviewAction,
+  {
+    from: BlogStatus[];
+    to: BlogStatus;
+    decision: BlogReviewDecision | null;
+    requireComment: boolean;
+  }
+> = {
+  submit: {
+    from: ["draft"],
+    to: "in_review",
+    decision: null,
+    requireComment: false,
+  },
+  approve: {
+    from: ["in_review"],
+    to: "approved",
+    decision: "approved",
+    requireComment: false,
+  },
+  reject: {
+    from: ["in_review"],
+    to: "draft",
+    decision: "rejected",
+    requireComment: true,
+  },
+};
+
+const ACTION_PAST_TENSE: Record<ReviewAction, string> = {
+  submit: "submitted",
+  approve: "approved",
+  reject: "rejected",
+};
+
+/**
+ * Bài đang public có pendingChanges: gửi duyệt / duyệt / từ chối thao tác trên
+ * bản chờ, bài vẫn published. Duyệt/từ chối chỉ khi bản chờ đã được gửi duyệt.
+ */
+const isPendingReview = (blog: IBlog, action: ReviewAction) => {
+  if (blog.status !== "published" || !blog.pendingChanges) return false;
+  if (action === "submit") return true;
+  return !!blog.review?.submittedAt && !blog.review?.reviewedAt;
+};
+
+const toObjectId = (id?: string) => (id ? new Types.ObjectId(id) : null);
+
+async function applyReviewAction(
+  req: AuthAdminRequest,
+  res: Response,
+  action: ReviewAction
+) {
+  const rule = ACTION_RULES[action];
+  const comment =
+    typeof req.body?.comment === "string" ? req.body.comment.trim() : "";
+  if (rule.requireComment && !comment) {
+    return res.status(400).json({ message: "comment is required" });
+  }
+
+  const before = await blogRepo.getById(req.params.id);
+  if (!before) {
+    return res.status(404).json({ message: "Not found" });
+  }
+  const pendingReview = isPendingReview(before, action);
+  if (!pendingReview && !rule.from.includes(before.status)) {
+    return res.status(409).json({
+      message: `Only ${rule.from.join(
+        "/"
+      )} posts (or published posts with pending changes) can be ${
+        ACTION_PAST_TENSE[action]
+      }`,
+      code: "BLOG_INVALID_STATUS_TRANSITION",
+    });
+  }
+
+  const now = new Date();
+  const actorId = toObjectId(req.adminUser?.id);
+  const previous: Partial<BlogReview> =
+    (before.review as any)?.toObject?.() ?? before.review ?? {};
+  const comments: BlogReviewComment[] = [...(previous.comments || [])];
+  if (comment) {
+    comments.push({
+      author: actorId,
+      authorEmail: req.adminUser?.email,
+      decision: rule.decision,
+      body: comment,
+      createdAt: now,
+    });
+  }
+
+  const review: BlogReview =
+    action === "submit"
+      ? {
+          submittedAt: now,
+          submittedBy: actorId,
+          reviewedAt: null,
+          reviewedBy: null,
+          decision: null,
+          comments,
+        }
+      : {
+          ...previous,
+          reviewedAt: now,
+          reviewedBy: actorId,
+          decision: rule.decision,
+          comments,
+        };
+
+  await ensureBlogRevisionBaseline(before);
+  const updated = pendingReview
+    ? await blogRepo.update(
+        req.params.id,
+        { review, updatedBy: actorId },
+        { applyPending: action === "approve" }
+      )
+    : await blogRepo.update(req.params.id, {
+        status: rule.to,
+        review,
+        updatedBy: actorId,
+      });
+  if (!updated) {
+    return res.status(404).json({ message: "Not found" });
+  }
+
+  await recordBlogRevision(req, updated, action);
+  if (pendingReview && action === "approve") invalidateRelatedBlogs();
+  void audit(req, {
+    action,
+    entityType: "blog",
+    entityId: String(updated._id),
+    before,
+    after: updated,
+    meta: comment ? { comment } : undefined,
+  });
+
+  const actor = req.adminUser?.id
+    ? await userRepo.getById(req.adminUser.id)
+    : null;
+  if (action === "submit") {
+    void notifyReviewers(updated, actor, comment || undefined);
+  } else {
+    void notifyReviewDecision(updated, {
+      approved: action === "approve",
+      reviewer: actor,
+      comment: comment || undefined,
+    });
+  }
+
+  return res.json(updated);
+}
+
+export const blogReviewController = {
+  async submitForReview(req: AuthAdminRequest, res: Response) {
+    try {
+      await applyReviewAction(req, res, "submit");
+    } catch (err: any) {
+      console.error("[BLOG REVIEW SUBMIT]", err);
+      res.status(400).json({ message: err?.message || "Submit failed" });
+    }
+  },
+
+  async approve(req: AuthAdminRequest, res: Response) {
+    try {
+      await applyReviewAction(req, res, "approve");
+    } catch (err: any) {
+      console.error("[BLOG REVIEW APPROVE]", err);
+      res.status(400).json({ message: err?.message || "Approve failed" });
+    }
+  },
+
+  async reject(req: AuthAdminRequest, res: Response) {
+    try {
+      await applyReviewAction(req, res, "reject");
+    } catch (err: any) {
+      console.error("[BLOG REVIEW REJECT]", err);
+      res.status(400).json({ message: err?.message || "Reject failed" });
+    }
+  },
+};
@@ -0,0 +1,196 @@
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import { blogRepo } from "../repositories/blog.repo";
+import {
+  BLOG_RESTORABLE_FIELDS,
+  blogRevisionRepo,
+} from "../repositories/blogRevision.repo";
+import type { AuthAdminRequest } from "../middlewares/authAdmin";
+import { hasPermission } from "../config/permissions";
+import { audit } from "../services/audit";
+import { recordBlogRevision } from "../services/blogRevisions";
+import { invalidateRelatedBlogs } from "../services/relatedBlogs";
+import { diffObjects } from "../utils/diff";
+import { diffWords } from "../utils/textDiff";
+
+const parseVersion = (value: any) => {
+  const version = Number(value);
+  return Number.isInteger(version) && version > 0 ? version : null;
+};
+
+const summarizeRevision = (revision: any) => ({
+  version: revision.version,
+  action: revision.action,
+  author: revision.author,
+  restoredFrom: revision.restoredFrom,
+  createdAt: revision.createdAt,
+});
+
+export const blogRevisionController = {
+  async listRevisions(req: Request, res: Response) {
+    try {
+      const blog = await blogRepo.getById(req.params.id);
+      if (!blog) {
+        return res.status(404).json({ message: "Not found" });
+      }
+
+      const { page, limit } = req.query as any;
+      const result = await blogRevisionRepo.list(req.params.id, {
+        page: Math.max(Number(page) || 1, 1),
+        limit: Number(limit) || 20,
+      });
+      res.json(result);
+    } catch (err: any) {
+      console.error("[BLOG REVISION LIST]", err);
+      res.status(500).json({ message: "Failed to list revisions" });
+    }
+  },
+
+  async getRevision(req: Request, res: Response) {
+    try {
+      const version = parseVersion(req.params.version);
+      if (!version) {
+        return res.status(400).json({ message: "Invalid version" });
+      }
+
+      const revision = await blogRevisionRepo.getByVersion(
+        req.params.id,
+        version
+      );
+      if (!revision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      res.json(revision);
+    } catch (err: any) {
+      console.error("[BLOG REVISION GET]", err);
+      res.status(500).json({ message: "Failed to get revision" });
+    }
+  },
+
+  /**
+   * So sánh 2 revision: ?from=<version>&to=<version> (mặc định to = bản mới nhất).
+   * Trả về thay đổi theo field và diff theo từ của plainText_i18n mỗi locale.
+   */
+  async diffRevisions(req: Request, res: Response) {
+    try {
+      const fromVersion = parseVersion(req.query.from);
+      if (!fromVersion) {
+        return res.status(400).json({ message: "from is required" });
+      }
+
+      let toVersion: number | null = null;
+      if (req.query.to !== undefined) {
+        toVersion = parseVersion(req.query.to);
+        if (!toVersion) {
+          return res.status(400).json({ message: "Invalid to" });
+        }
+      }
+
+      const [from, to] = await Promise.all([
+        blogRevisionRepo.getByVersion(req.params.id, fromVersion),
+        toVersion
+          ? blogRevisionRepo.getByVersion(req.params.id, toVersion)
+          : blogRevisionRepo.getLatest(req.params.id),
+      ]);
+      if (!from || !to) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      const fromText = from.snapshot?.plainText_i18n || {};
+      const toText = to.snapshot?.plainText_i18n || {};
+
+      res.json({
+        from: summarizeRevision(from),
+        to: summarizeRevision(to),
+        changes: diffObjects(from.snapshot, to.snapshot, {
+          ignore: ["plainText_i18n"],
+        }),
+        text: {
+          vi: diffWords(fromText.vi || "", toText.vi || ""),
+          en: diffWords(fromText.en || "", toText.en || ""),
+        },
+      });
+    } catch (err: any) {
+      console.error("[BLOG REVISION DIFF]", err);
+      res.status(500).json({ message: "Failed to diff revisions" });
+    }
+  },
+
+  // Khôi phục nội dung của revision như một lần cập nhật mới (không đổi trạng thái xuất bản)
+  async restoreRevision(req: AuthAdminRequest, res: Response) {
+    try {
+      const version = parseVersion(req.params.version);
+      if (!version) {
+        return res.status(400).json({ message: "Invalid version" });
+      }
+
+      const revision = await blogRevisionRepo.getByVersion(
+        req.params.id,
+        version
+      );
+      if (!revision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      // Field không có trong snapshot được xoá để bài khớp đúng revision
+      const data: Record<string, any> = {};
+      for (const field of BLOG_RESTORABLE_FIELDS) {
+        data[field] = revision.snapshot?.[field];
+      }
+
+      const before = await blogRepo.getById(req.params.id);
+      if (!before) {
+        return res.status(404).json({ message: "Not found" });
+      }
+
+      // Khôi phục nội dung khác khiến bài public phải duyệt lại (bị gỡ)
+      if (
+        before.status === "published" &&
+        blogRepo.nextStatus(data, before) !== "published" &&
+        !hasPermission(req.adminUser, "blogs:publish")
+      ) {
+        return res.status(403).json({
+          message: 'Forbidden: missing permission "blogs:publish"',
+          permission: "blogs:publish",
+        });
+      }
+
+      const updated = await blogRepo.update(req.params.id, {
+        ...data,
+        updatedBy: req.adminUser?.id
+          ? new Types.ObjectId(req.adminUser.id)
+          : null,
+      });
+
+      if (!updated) {
+        return res.status(404).json({ message: "Not found" });
+      }
+
+      await recordBlogRevision(req, updated, "restore", version);
+      if (before.status === "published" || updated.status === "published") {
+        invalidateRelatedBlogs();
+      }
+      void audit(req, {
+        action: "update",
+        entityType: "blog",
+        entityId: String(updated._id),
+        before,
+        after: updated,
+        meta: { restoredFromRevision: version },
+      });
+
+      res.json(updated);
+    } catch (err: any) {
+      console.error("[BLOG REVISION RESTORE]", err);
+
+      if (err?.code === 11000) {
+        return res.status(409).json({
+          message: "Slug already exists",
+        });
+      }
+
+      res.status(400).json({ message: err?.message || "Restore failed" });
+    }
+  },
+};
@@ -0,0 +1,264 @@
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import {
+  blogCategoryRepo,
+  blogSeriesRepo,
+} from "../repositories/blogTaxonomy.repo";
+import { detectLocale, localizeDoc } from "../i18n/localize";
+import { normalizeLocale } from "../i18n/types";
+import type { AuditEntityType } from "../models/AuditLog";
+import type { SlugRedirectEntityType } from "../models/SlugRedirect";
+import type { AuthAdminRequest } from "../middlewares/authAdmin";
+import { audit } from "../services/audit";
+import { invalidateRelatedBlogs } from "../services/relatedBlogs";
+import {
+  resolveSlugRedirect,
+  sendSlugRedirect,
+} from "../services/slugRedirects";
+
+type TaxonomyRepo = typeof blogCategoryRepo;
+
+const L_FIELDS = ["name", "description"];
+const EDITABLE_FIELDS = [
+  "name_i18n",
+  "slug_i18n",
+  "description_i18n",
+  "coverImage",
+  "sortOrder",
+  "isActive",
+] as const;
+
+const isPlainObject = (value: any) =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function pickBody(body: any, isCreate: boolean) {
+  const data: Record<string, any> = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (body[field] !== undefined) data[field] = body[field];
+  }
+
+  if (isCreate || data.name_i18n !== undefined) {
+    if (
+      !isPlainObject(data.name_i18n) ||
+      (!data.name_i18n.vi?.trim?.() && !data.name_i18n.en?.trim?.())
+    ) {
+      return { error: "At least one localized name (vi/en) is required" };
+    }
+  }
+  if (data.slug_i18n !== undefined && !isPlainObject(data.slug_i18n)) {
+    return { error: "slug_i18n must be an object" };
+  }
+  if (
+    data.description_i18n !== undefined &&
+    !isPlainObject(data.description_i18n)
+  ) {
+    return { error: "description_i18n must be an object" };
+  }
+  if (
+    data.coverImage !== undefined &&
+    data.coverImage !== null &&
+    (!isPlainObject(data.coverImage) || typeof data.coverImage.url !== "string")
+  ) {
+    return { error: "coverImage.url is required" };
+  }
+  if (data.sortOrder !== undefined && !Number.isFinite(data.sortOrder)) {
+    return { error: "sortOrder must be a number" };
+  }
+  if (data.isActive !== undefined && typeof data.isActive !== "boolean") {
+    return { error: "isActive must be a boolean" };
+  }
+
+  return { data };
+}
+
+const resolveLocale = (req: Request) =>
+  normalizeLocale(
+    (req.query.locale as any) ||
+      detectLocale(req.headers["accept-language"] as string)
+  );
+
+/**
+ * CRUD admin + endpoint public cho Category / Series (cùng cấu trúc)
+ */
+function createBlogTaxonomyController(
+  repo: TaxonomyRepo,
+  entityType: AuditEntityType & SlugRedirectEntityType,
+  tag: string
+) {
+  return {
+    async listAdmin(req: Request, res: Response) {
+      try {
+        const [items, counts] = await Promise.all([
+          repo.list(true),
+          repo.countPublishedPosts(),
+        ]);
+        res.json({
+          items: items.map((item) => ({
+            ...item,
+            postCount: counts.get(String(item._id)) || 0,
+          })),
+        });
+      } catch (err: any) {
+        console.error(`[${tag} LIST]`, err);
+        res.status(500).json({ message: "Failed to list" });
+      }
+    },
+
+    async create(req: AuthAdminRequest, res: Response) {
+      try {
+        const { data, error } = pickBody(req.body || {}, true);
+        if (error) return res.status(400).json({ message: error });
+
+        const actorId = req.adminUser?.id
+          ? new Types.ObjectId(req.adminUser.id)
+          : null;
+        const doc = await repo.create({
+          ...data,
+          createdBy: actorId,
+          updatedBy: actorId,
+        });
+
+        void audit(req, {
+          action: "create",
+          entityType,
+          entityId: String(doc._id),
+          after: doc,
+        });
+
+        res.status(201).json(doc);
+      } catch (err: any) {
+        console.error(`[${tag} CREATE]`, err);
+
+        if (err?.code === 11000) {
+          return res.status(409).json({ message: "Slug already exists" });
+        }
+
+        res.status(400).json({ message: err?.message || "Create failed" });
+      }
+    },
+
+    async update(req: AuthAdminRequest, res: Response) {
+      try {
+        const { data, error } = pickBody(req.body || {}, false);
+        if (error) return res.status(400).json({ message: error });
+
+        const before = await repo.getById(req.params.id);
+        const updated = await repo.update(req.params.id, {
+          ...data,
+          updatedBy: req.adminUser?.id
+            ? new Types.ObjectId(req.adminUser.id)
+            : null,
+        });
+        if (!updated) {
+          return res.status(404).json({ message: "Not found" });
+        }
+
+        void audit(req, {
+          action: "update",
+          entityType,
+          entityId: String(updated._id),
+          before,
+          after: updated,
+        });
+
+        res.json(updated);
+      } catch (err: any) {
+        console.error(`[${tag} UPDATE]`, err);
+
+        if (err?.code === 11000) {
+          return res.status(409).json({ message: "Slug already exists" });
+        }
+
+        res.status(400).json({ message: err?.message || "Update failed" });
+      }
+    },
+
+    async remove(req: AuthAdminRequest, res: Response) {
+      try {
+        const result = await repo.delete(req.params.id);
+        if (!result) {
+          return res.status(404).json({ message: "Not found" });
+        }
+        if (result.detachedPosts) invalidateRelatedBlogs();
+
+        void audit(req, {
+          action: "delete",
+          entityType,
+          entityId: String(result.deleted._id),
+          before: result.deleted,
+          meta: { detachedPosts: result.detachedPosts },
+        });
+
+        res.json({
+          message: "Deleted successfully",
+          detachedPosts: result.detachedPosts,
+        });
+      } catch (err: any) {
+        console.error(`[${tag} DELETE]`, err);
+        res.status(400).json({ message: err?.message || "Delete failed" });
+      }
+    },
+
+    // Danh sách public (chỉ mục đang bật) kèm số bài đã xuất bản
+    async listPublic(req: Request, res: Response) {
+      try {
+        const locale = resolveLocale(req);
+        const [items, counts] = await Promise.all([
+          repo.list(),
+          repo.countPublishedPosts(),
+        ]);
+
+        res.setHeader("Vary", "Accept-Language");
+        res.json({
+          items: items.map((item) => ({
+            ...localizeDoc(item, locale, { fields: L_FIELDS }),
+            postCount: counts.get(String(item._id)) || 0,
+          })),
+        });
+      } catch (err: any) {
+        console.error(`[${tag} LIST PUBLIC]`, err);
+        res.status(500).json({ message: "Failed to list" });
+      }
+    },
+
+    async getPublicBySlug(req: Request, res: Response) {
+      try {
+        const locale = resolveLocale(req);
+        const item = await repo.getActiveBySlug(req.params.slug, locale);
+        if (!item) {
+          const target = await resolveSlugRedirect(
+            entityType,
+            req.params.slug.toLowerCase(),
+            locale
+          );
+          if (target) {
+            return sendSlugRedirect(req, res, target, locale);
+          }
+          return res.status(404).json({ message: "Not found" });
+        }
+
+        const counts = await repo.countPublishedPosts();
+        res.setHeader("Vary", "Accept-Language");
+        res.json({
+          ...localizeDoc(item, locale, { fields: L_FIELDS }),
+          postCount: counts.get(String(item._id)) || 0,
+        });
+      } catch (err: any) {
+        console.error(`[${tag} GET PUBLIC]`, err);
+        res.status(500).json({ message: "Failed to get" });
+      }
+    },
+  };
+}
+
+export const blogCategoryController = createBlogTaxonomyController(
+  blogCategoryRepo,
+  "blogCategory",
+  "BLOG CATEGORY"
+);
+
+export const blogSeriesController = createBlogTaxonomyController(
+  blogSeriesRepo,
+  "blogSeries",
+  "BLOG SERIES"
+);
@@ -0,0 +1,104 @@
+import { Request, Response } from "express";
+import { blogRepo } from "../repositories/blog.repo";
+import type { AuthAdminRequest } from "../middlewares/authAdmin";
+import { audit } from "../services/audit";
+import { getTrashRetentionDays, purgeBlog } from "../services/blogTrash";
+import { invalidateRelatedBlogs } from "../services/relatedBlogs";
+
+const purgeDateOf = (deletedAt: Date | null | undefined, days: number) =>
+  deletedAt && days > 0
+    ? new Date(new Date(deletedAt).getTime() + days * 24 * 60 * 60 * 1000)
+    : null;
+
+export const blogTrashController = {
+  async listTrash(req: Request, res: Response) {
+    try {
+      const { page, limit, q } = req.query as any;
+      const result = await blogRepo.listTrash({
+        page: Math.max(Number(page) || 1, 1),
+        limit: Number(limit) || 20,
+        q: q ? String(q) : undefined,
+      });
+
+      const retentionDays = getTrashRetentionDays();
+      res.json({
+        ...result,
+        retentionDays,
+        items: result.items.map((item) => ({
+          ...item,
+          purgeAt: purgeDateOf(item.deletedAt, retentionDays),
+        })),
+      });
+    } catch (err: any) {
+      console.error("[BLOG TRASH LIST]", err);
+      res.status(500).json({ message: "Failed to list trash" });
+    }
+  },
+
+  // Khôi phục bài về trạng thái trước khi xoá; từ chối nếu slug đã bị bài khác dùng
+  async restoreBlog(req: AuthAdminRequest, res: Response) {
+    try {
+      const blog = await blogRepo.getDeletedById(req.params.id);
+      if (!blog) {
+        return res.status(404).json({ message: "Not found in trash" });
+      }
+
+      const conflicts = await blogRepo.findSlugConflicts(blog);
+      if (conflicts.length) {
+        return res.status(409).json({
+          message: "Slug already used by another post",
+          code: "BLOG_SLUG_CONFLICT",
+          conflicts,
+        });
+      }
+
+      const restored = await blogRepo.restore(req.params.id, req.adminUser?.id);
+      if (!restored) {
+        return res.status(404).json({ message: "Not found in trash" });
+      }
+      if (restored.status === "published") invalidateRelatedBlogs();
+
+      void audit(req, {
+        action: "restore",
+        entityType: "blog",
+        entityId: String(restored._id),
+        meta: { deletedAt: blog.deletedAt },
+      });
+
+      res.json(restored);
+    } catch (err: any) {
+      console.error("[BLOG TRASH RESTORE]", err);
+
+      if (err?.code === 11000) {
+        return res.status(409).json({
+          message: "Slug already used by another post",
+          code: "BLOG_SLUG_CONFLICT",
+        });
+      }
+
+      res.status(400).json({ message: err?.message || "Restore failed" });
+    }
+  },
+
+  async purgeBlog(req: AuthAdminRequest, res: Response) {
+    try {
+      const result = await purgeBlog(req.params.id);
+      if (!result) {
+        return res.status(404).json({ message: "Not found in trash" });
+      }
+
+      void audit(req, {
+        action: "delete",
+        entityType: "blog",
+        entityId: String(result.blog._id),
+        before: result.blog.toObject(),
+        meta: { soft: false, assets: result.assets },
+      });
+
+      res.json({ message: "Deleted permanently", assets: result.assets });
+    } catch (err: any) {
+      console.error("[BLOG TRASH PURGE]", err);
+      res.status(400).json({ message: err?.message || "Delete failed" });
+    }
+  },
+};
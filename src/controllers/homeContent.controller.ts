@@ -4,6 +4,8 @@ import { homeContentRepo } from "../repositories/homeContent.repo";
 import { detectLocale, localizeDoc } from "../i18n/localize";
 import { ParamsDictionary } from "express-serve-static-core";
 import { ParsedQs } from "qs";
+import type { AuthAdminRequest } from "../middlewares/authAdmin";
+import { audit } from "../services/audit";
 
 const L_FIELDS = ["heroTitle", "heroSubtitle", "seoTitle", "seoDescription"];
 
@@ -43,7 +45,7 @@ export const homeContentController = {
     }
   },
 
-  async upsertHomeContent(req: Request, res: Response) {
+  async upsertHomeContent(req: AuthAdminRequest, res: Response) {
     try {
       let body: any = req.body;
       if (typeof body === "string") {
@@ -77,7 +79,16 @@ export const homeContentController = {
         });
       }
 
-      await homeContentRepo.upsertHome(body);
+      const before = await homeContentRepo.getHome(false);
+      const saved = await homeContentRepo.upsertHome(body);
+
+      void audit(req, {
+        action: before ? "update" : "create",
+        entityType: "homeContent",
+        entityId: String(saved._id),
+        before: before || undefined,
+        after: saved,
+      });
 
       const locale =
         (req.query.locale as any) ||
@@ -108,9 +119,17 @@ export const homeContentController = {
     }
   },
 
-  async deleteHomeContent(req: Request, res: Response) {
+  async deleteHomeContent(req: AuthAdminRequest, res: Response) {
     try {
-      await homeContentRepo.deleteHome();
+      const deleted = await homeContentRepo.deleteHome();
+      if (deleted) {
+        void audit(req, {
+          action: "delete",
+          entityType: "homeContent",
+          entityId: String(deleted._id),
+          before: deleted,
+        });
+      }
       res.json({ message: "Home content deleted" });
     } catch (err: any) {
       console.error("[HOME DELETE]", err);
@@ -0,0 +1,269 @@
+import { Request, Response } from "express";
+import { userRepo } from "../repositories/user.repo";
+import {
+  getInvitationStatus,
+  invitationRepo,
+  type InvitationStatus,
+} from "../repositories/invitation.repo";
+import { hashPassword, validatePassword } from "../utils/password";
+import { verifyInviteToken } from "../utils/jwt";
+import { mailer } from "../services/mailer";
+import { mailTemplates } from "../services/mailTemplates";
+import { ADMIN_APP_URL } from "../config/app";
+import type { IInvitation } from "../models/Invitation";
+import type { Role } from "../models/User";
+import type { AuthAdminRequest } from "../middlewares/authAdmin";
+
+const ROLES = new Set<Role>(["super_admin", "editor"]);
+const STATUSES = new Set<InvitationStatus>([
+  "pending",
+  "accepted",
+  "revoked",
+  "expired",
+]);
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const toPublicInvitation = (doc: IInvitation) => ({
+  id: doc.id,
+  email: doc.email,
+  role: doc.role,
+  status: getInvitationStatus(doc),
+  expiresAt: doc.expiresAt,
+  sentAt: doc.sentAt,
+  sendCount: doc.sendCount,
+  acceptedAt: doc.acceptedAt,
+  revokedAt: doc.revokedAt,
+  createdAt: doc.createdAt,
+});
+
+/**
+ * Gửi mail mời; trả về false nếu gửi lỗi để admin có thể resend
+ */
+async function sendInvitationMail(
+  req: AuthAdminRequest,
+  invitation: IInvitation,
+  token: string
+) {
+  try {
+    const inviter = req.adminUser?.id
+      ? await userRepo.getById(req.adminUser.id)
+      : null;
+    await mailer.send({
+      to: invitation.email,
+      ...mailTemplates.invitation({
+        inviterName: inviter?.name || inviter?.email,
+        role: invitation.role,
+        url: `${ADMIN_APP_URL}/accept-invite?token=${encodeURIComponent(
+          token
+        )}`,
+        expiresAt: invitation.expiresAt,
+      }),
+    });
+    await invitationRepo.markSent(invitation.id);
+    return true;
+  } catch (err) {
+    console.error("[INVITATION MAIL]", err);
+    return false;
+  }
+}
+
+async function findPendingInvitation(token: string) {
+  const payload = verifyInviteToken(token);
+  if (!payload?.inv) return null;
+
+  const invitation = await invitationRepo.findPendingByToken(token);
+  if (!invitation || invitation.id !== payload.inv) return null;
+  return invitation;
+}
+
+export const invitationController = {
+  async listInvitations(req: Request, res: Response) {
+    try {
+      const { page, limit, status } = req.query as any;
+      if (status !== undefined && !STATUSES.has(status)) {
+        return res.status(400).json({ message: "Invalid status" });
+      }
+
+      const result = await invitationRepo.list({
+        page: Math.max(Number(page) || 1, 1),
+        limit: Number(limit) || 20,
+        status,
+      });
+      res.json(result);
+    } catch (err: any) {
+      console.error("[INVITATION LIST]", err);
+      res.status(500).json({ message: "Failed to list invitations" });
+    }
+  },
+
+  async createInvitation(req: AuthAdminRequest, res: Response) {
+    try {
+      const body = req.body || {};
+
+      const email =
+        typeof body.email === "string" ? body.email.trim().toLowerCase() : "";
+      if (!EMAIL_RE.test(email)) {
+        return res.status(400).json({ message: "A valid email is required" });
+      }
+
+      const role: Role = body.role ?? "editor";
+      if (!ROLES.has(role)) {
+        return res.status(400).json({ message: "Invalid role" });
+      }
+
+      const existing = await userRepo.getByEmail(email);
+      if (existing) {
+        return res.status(409).json({ message: "Email already exists" });
+      }
+
+      const user = await userRepo.create({
+        email,
+        name: typeof body.name === "string" ? body.name : undefined,
+        role,
+        provider: "local",
+        isActive: false,
+      });
+
+      const { doc, token } = await invitationRepo.create({
+        userId: user.id,
+        email,
+        role,
+        invitedBy: req.adminUser?.id,
+      });
+
+      const emailSent = await sendInvitationMail(req, doc, token);
+      const fresh = await invitationRepo.getById(doc.id);
+
+      res.status(201).json({ ...toPublicInvitation(fresh || doc), emailSent });
+    } catch (err: any) {
+      console.error("[INVITATION CREATE]", err);
+
+      if (err?.code === 11000) {
+        return res.status(409).json({ message: "Email already exists" });
+      }
+
+      res
+        .status(400)
+        .json({ message: err?.message || "Create invitation failed" });
+    }
+  },
+
+  async resendInvitation(req: AuthAdminRequest, res: Response) {
+    try {
+      const rotated = await invitationRepo.rotateToken(req.params.id);
+      if (!rotated) {
+        return res
+          .status(404)
+          .json({ message: "Pending invitation not found" });
+      }
+
+      const emailSent = await sendInvitationMail(
+        req,
+        rotated.doc,
+        rotated.token
+      );
+      const fresh = await invitationRepo.getById(rotated.doc.id);
+
+      res.json({ ...toPublicInvitation(fresh || rotated.doc), emailSent });
+    } catch (err: any) {
+      console.error("[INVITATION RESEND]", err);
+      res.status(400).json({ message: err?.message || "Resend failed" });
+    }
+  },
+
+  async revokeInvitation(req: Request, res: Response) {
+    try {
+      const revoked = await invitationRepo.revoke(req.params.id);
+      if (!revoked) {
+        return res
+          .status(404)
+          .json({ message: "Pending invitation not found" });
+      }
+
+      // Xoá user placeholder nếu chưa từng được kích hoạt
+      const user = await userRepo.getById(String(revoked.user));
+      if (user && !user.isActive && !user.passwordHash && !user.lastLoginAt) {
+        await userRepo.delete(user.id);
+      }
+
+      res.json(toPublicInvitation(revoked));
+    } catch (err: any) {
+      console.error("[INVITATION REVOKE]", err);
+      res.status(400).json({ message: err?.message || "Revoke failed" });
+    }
+  },
+
+  async lookupInvitation(req: Request, res: Response) {
+    try {
+      const token = String(req.query.token || "");
+      const invitation = token ? await findPendingInvitation(token) : null;
+      if (!invitation) {
+        return res
+          .status(404)
+          .json({ message: "Invitation is invalid or has expired" });
+      }
+
+      res.json({
+        email: invitation.email,
+        role: invitation.role,
+        expiresAt: invitation.expiresAt,
+      });
+    } catch (err: any) {
+      console.error("[INVITATION LOOKUP]", err);
+      res.status(500).json({ message: "Failed to get invitation" });
+    }
+  },
+
+  async acceptInvitation(req: Request, res: Response) {
+    try {
+      const { token, password, name } = (req.body || {}) as {
+        token?: string;
+        password?: string;
+        name?: string;
+      };
+
+      if (!token || typeof token !== "string") {
+        return res.status(400).json({ message: "token is required" });
+      }
+
+      const passwordError = validatePassword(password);
+      if (passwordError) {
+        return res.status(400).json({ message: passwordError });
+      }
+
+      const invitation = await findPendingInvitation(token);
+      if (!invitation) {
+        return res
+          .status(400)
+          .json({ message: "Invitation is invalid or has expired" });
+      }
+
+      const user = await userRepo.getById(String(invitation.user));
+      if (!user) {
+        return res
+          .status(400)
+          .json({ message: "Invitation is invalid or has expired" });
+      }
+
+      // Đánh dấu accepted trước (atomic) để token chỉ dùng được một lần
+      const accepted = await invitationRepo.markAccepted(invitation.id);
+      if (!accepted) {
+        return res
+          .status(400)
+          .json({ message: "Invitation is invalid or has expired" });
+      }
+
+      await userRepo.update(user.id, {
+        passwordHash: await hashPassword(password),
+        name: typeof name === "string" && name.trim() ? name.trim() : user.name,
+        role: invitation.role,
+        isActive: true,
+      });
+
+      res.json({ message: "Invitation accepted. You can now log in." });
+    } catch (err: any) {
+      console.error("[INVITATION ACCEPT]", err);
+      res.status(400).json({ message: err?.message || "Accept failed" });
+    }
+  },
+};
@@ -2,9 +2,16 @@
 import { Request, Response } from "express";
 import { productRepo } from "../repositories/product.repo";
 import { detectLocale, localizeDoc, localizeList } from "../i18n/localize";
-import { DEFAULT_LOCALE } from "../i18n/types";
+import { DEFAULT_LOCALE, normalizeLocale } from "../i18n/types";
 import { ParamsDictionary } from "express-serve-static-core";
 import { ParsedQs } from "qs";
+import type { AuthAdminRequest } from "../middlewares/authAdmin";
+import { audit } from "../services/audit";
+import {
+  resolveSlugRedirect,
+  sendSlugRedirect,
+} from "../services/slugRedirects";
+import { slugRedirectRepo } from "../repositories/slugRedirect.repo";
 type ProductCategory =
   | "coffee"
   | "tea"
@@ -70,7 +77,7 @@ function attachMetaFields(product: any, locale: string) {
 }
 
 export const productController = {
-  async createProduct(req: Request, res: Response) {
+  async createProduct(req: AuthAdminRequest, res: Response) {
     try {
       const body =
         typeof req.body === "string" ? JSON.parse(req.body) : req.body;
@@ -110,6 +117,13 @@ export const productController = {
       }
 
       const doc = await productRepo.create(body);
+      void audit(req, {
+        action: "create",
+        entityType: "product",
+        entityId: String(doc._id),
+        after: doc,
+      });
+
       const locale =
         (req.query.locale as any) ||
         detectLocale(req.headers["accept-language"] as string);
@@ -267,6 +281,15 @@ export const productController = {
 
       const product = await productRepo.getBySlug(slug);
       if (!product) {
+        const redirectLocale = normalizeLocale(locale);
+        const target = await resolveSlugRedirect(
+          "product",
+          slug,
+          redirectLocale
+        );
+        if (target) {
+          return sendSlugRedirect(req, res, target, redirectLocale);
+        }
         return res.status(404).json({ message: "Not found" });
       }
 
@@ -286,7 +309,7 @@ export const productController = {
     }
   },
 
-  async updateProduct(req: Request, res: Response) {
+  async updateProduct(req: AuthAdminRequest, res: Response) {
     try {
       let body: any = req.body;
       if (typeof body === "string") {
@@ -324,11 +347,20 @@ export const productController = {
         });
       }
 
+      const before = await productRepo.getById(req.params.id);
       const updated = await productRepo.update(req.params.id, body);
       if (!updated) {
         return res.status(404).json({ message: "Not found" });
       }
 
+      void audit(req, {
+        action: "update",
+        entityType: "product",
+        entityId: String(updated._id),
+        before,
+        after: updated,
+      });
+
       const locale =
         (req.query.locale as any) ||
         detectLocale(req.headers["accept-language"] as string);
@@ -350,10 +382,19 @@ export const productController = {
     }
   },
 
-  async deleteProduct(req: Request, res: Response) {
+  async deleteProduct(req: AuthAdminRequest, res: Response) {
     try {
       const { id } = req.params;
-      await productRepo.delete(id);
+      const deleted = await productRepo.delete(id);
+      if (deleted) {
+        await slugRedirectRepo.deleteForEntity("product", String(deleted._id));
+        void audit(req, {
+          action: "delete",
+          entityType: "product",
+          entityId: String(deleted._id),
+          before: deleted,
+        });
+      }
       res.json({ message: "Deleted successfully" });
     } catch (err: any) {
       console.error("[PRODUCT DELETE]", err);
@@ -0,0 +1,51 @@
+import { Request, Response } from "express";
+import { securitySettingsRepo } from "../repositories/securitySettings.repo";
+import { userRepo } from "../repositories/user.repo";
+import type { AuthAdminRequest } from "../middlewares/authAdmin";
+
+export const securitySettingsController = {
+  async getSettings(_req: Request, res: Response) {
+    try {
+      res.json(await securitySettingsRepo.get());
+    } catch (err: any) {
+      console.error("[SECURITY SETTINGS GET]", err);
+      res.status(500).json({ message: "Failed to get security settings" });
+    }
+  },
+
+  async updateSettings(req: AuthAdminRequest, res: Response) {
+    try {
+      const body = req.body || {};
+      const data: { requireTwoFactorForSuperAdmins?: boolean } = {};
+
+      if (body.requireTwoFactorForSuperAdmins !== undefined) {
+        if (typeof body.requireTwoFactorForSuperAdmins !== "boolean") {
+          return res.status(400).json({
+            message: "requireTwoFactorForSuperAdmins must be a boolean",
+          });
+        }
+        data.requireTwoFactorForSuperAdmins =
+          body.requireTwoFactorForSuperAdmins;
+      }
+
+      // Không cho tự khoá mình: người bật policy phải đã bật 2FA
+      if (data.requireTwoFactorForSuperAdmins) {
+        const actor = await userRepo.getById(req.adminUser.id);
+        if (!actor?.twoFactor?.enabled) {
+          return res.status(409).json({
+            message:
+              "Enable two-factor authentication on your own account before requiring it",
+          });
+        }
+      }
+
+      await securitySettingsRepo.update(data, req.adminUser?.id);
+      res.json(await securitySettingsRepo.get());
+    } catch (err: any) {
+      console.error("[SECURITY SETTINGS UPDATE]", err);
+      res.status(400).json({
+        message: err?.message || "Failed to update security settings",
+      });
+    }
+  },
+};
@@ -0,0 +1,165 @@
+import { Request, Response } from "express";
+import { blogRepo } from "../repositories/blog.repo";
+import { productRepo } from "../repositories/product.repo";
+import { homeContentRepo } from "../repositories/homeContent.repo";
+import { DEFAULT_LOCALE, SUPPORTED_LOCALES, type Locale } from "../i18n/types";
+import { ROBOTS_ALLOW_INDEXING, SITEMAP_BASE_URL } from "../config/app";
+import {
+  blogIndexUrl,
+  blogPostUrl,
+  homeUrl,
+  productUrl,
+} from "../utils/siteUrls";
+import {
+  latestDate,
+  renderSitemapIndex,
+  renderUrlset,
+  type SitemapUrl,
+} from "../utils/sitemap";
+import { sendCacheable } from "../utils/httpCache";
+
+type UrlBuilder = (locale: Locale) => string;
+
+const SUB_SITEMAPS = ["home", "blog", "products"] as const;
+type SubSitemap = (typeof SUB_SITEMAPS)[number];
+
+/**
+ * Một <url> cho mỗi locale, mỗi url liệt kê đủ bản vi/en + x-default
+ */
+function localizedUrls(build: UrlBuilder, lastmod?: Date | null) {
+  const alternates = [
+    ...SUPPORTED_LOCALES.map((locale) => ({
+      hreflang: locale,
+      href: build(locale),
+    })),
+    { hreflang: "x-default", href: build(DEFAULT_LOCALE) },
+  ];
+  return SUPPORTED_LOCALES.map<SitemapUrl>((locale) => ({
+    loc: build(locale),
+    lastmod,
+    alternates,
+  }));
+}
+
+async function blogUrls() {
+  const blogs = await blogRepo.listForSitemap();
+  const urls: SitemapUrl[] = [];
+
+  for (const blog of blogs) {
+    const build: UrlBuilder = (locale) =>
+      blogPostUrl(blog.slug_i18n?.[locale] || blog.slug, locale);
+
+    // canonicalUrl trỏ sang trang khác: để trang canonical được index thay
+    const canonical = blog.canonicalUrl?.trim();
+    if (canonical && !SUPPORTED_LOCALES.some((l) => build(l) === canonical)) {
+      continue;
+    }
+
+    urls.push(...localizedUrls(build, blog.updatedAt));
+  }
+
+  return { urls, lastModified: latestDate(blogs.map((b) => b.updatedAt)) };
+}
+
+async function productUrls() {
+  const products = await productRepo.listForSitemap();
+  const urls = products.flatMap((product) =>
+    // Endpoint public chỉ nhận product.slug nên mọi locale dùng chung slug
+    localizedUrls(
+      (locale) => productUrl(product.slug, locale),
+      product.updatedAt
+    )
+  );
+  return { urls, lastModified: latestDate(products.map((p) => p.updatedAt)) };
+}
+
+async function homeUrls() {
+  const [home, blogs] = await Promise.all([
+    homeContentRepo.getHome(false),
+    blogRepo.listForSitemap(),
+  ]);
+  const homeLastmod = home?.updatedAt ? new Date(home.updatedAt) : null;
+  const blogLastmod = latestDate(
+    blogs.map((b) => latestDate([b.publishedAt, b.updatedAt]))
+  );
+
+  return {
+    urls: [
+      ...localizedUrls(homeUrl, homeLastmod),
+      ...localizedUrls(blogIndexUrl, blogLastmod),
+    ],
+    lastModified: latestDate([homeLastmod, blogLastmod]),
+  };
+}
+
+const BUILDERS: Record<
+  SubSitemap,
+  () => Promise<{ urls: SitemapUrl[]; lastModified: Date | null }>
+> = {
+  home: homeUrls,
+  blog: blogUrls,
+  products: productUrls,
+};
+
+export const sitemapController = {
+  async index(_req: Request, res: Response) {
+    try {
+      const results = await Promise.all(
+        SUB_SITEMAPS.map(async (name) => ({
+          name,
+          lastModified: (await BUILDERS[name]()).lastModified,
+        }))
+      );
+
+      const xml = renderSitemapIndex(
+        results.map((r) => ({
+          loc: `${SITEMAP_BASE_URL}/sitemaps/${r.name}.xml`,
+          lastmod: r.lastModified,
+        }))
+      );
+      sendCacheable(res, xml, {
+        contentType: "application/xml",
+        lastModified: latestDate(results.map((r) => r.lastModified)),
+        maxAge: 3600,
+      });
+    } catch (err: any) {
+      console.error("[SITEMAP INDEX]", err);
+      res.status(500).json({ message: "Failed to build sitemap" });
+    }
+  },
+
+  async subSitemap(req: Request, res: Response) {
+    try {
+      const name = req.params.name as SubSitemap;
+      if (!SUB_SITEMAPS.includes(name)) {
+        return res.status(404).json({ message: "Sitemap not found" });
+      }
+
+      const { urls, lastModified } = await BUILDERS[name]();
+      sendCacheable(res, renderUrlset(urls), {
+        contentType: "application/xml",
+        lastModified,
+        maxAge: 3600,
+      });
+    } catch (err: any) {
+      console.error("[SITEMAP]", err);
+      res.status(500).json({ message: "Failed to build sitemap" });
+    }
+  },
+
+  robots(_req: Request, res: Response) {
+    const lines = ROBOTS_ALLOW_INDEXING
+      ? [
+          "User-agent: *",
+          "Allow: /",
+          "",
+          `Sitemap: ${SITEMAP_BASE_URL}/sitemap.xml`,
+        ]
+      : ["User-agent: *", "Disallow: /"];
+
+    sendCacheable(res, `${lines.join("\n")}\n`, {
+      contentType: "text/plain",
+      maxAge: 3600,
+    });
+  },
+};
@@ -0,0 +1,232 @@
+import { Request, Response } from "express";
+import { isValidObjectId } from "mongoose";
+import { slugRedirectRepo } from "../repositories/slugRedirect.repo";
+import { blogRepo } from "../repositories/blog.repo";
+import { productRepo } from "../repositories/product.repo";
+import {
+  blogCategoryRepo,
+  blogSeriesRepo,
+} from "../repositories/blogTaxonomy.repo";
+import type {
+  SlugRedirectEntityType,
+  SlugRedirectSource,
+} from "../models/SlugRedirect";
+import type { Locale } from "../i18n/types";
+import type { AuthAdminRequest } from "../middlewares/authAdmin";
+import { audit } from "../services/audit";
+import { normalizeSlug } from "../utils/blogContent";
+
+const ENTITY_TYPES = new Set<SlugRedirectEntityType>([
+  "blog",
+  "product",
+  "blogCategory",
+  "blogSeries",
+]);
+const SOURCES = new Set<SlugRedirectSource>(["history", "custom"]);
+const LOCALES = new Set<Locale>(["vi", "en"]);
+
+// undefined: không gửi, null: mọi locale, "invalid": sai giá trị
+const parseLocale = (input: any): Locale | null | undefined | "invalid" => {
+  if (input === undefined) return undefined;
+  if (input === null || input === "") return null;
+  return LOCALES.has(input) ? input : "invalid";
+};
+
+const REPOS = {
+  blog: blogRepo,
+  product: productRepo,
+  blogCategory: blogCategoryRepo,
+  blogSeries: blogSeriesRepo,
+} satisfies Record<SlugRedirectEntityType, unknown>;
+
+async function entityExists(entityType: SlugRedirectEntityType, id: string) {
+  if (!isValidObjectId(id)) return false;
+  return !!(await REPOS[entityType].getById(id));
+}
+
+// Slug đang được dùng thật thì redirect sẽ không bao giờ được áp dụng
+async function slugInUse(entityType: SlugRedirectEntityType, slug: string) {
+  return REPOS[entityType].isSlugInUse(slug);
+}
+
+export const slugRedirectController = {
+  async listRedirects(req: Request, res: Response) {
+    try {
+      const { page, limit, entityType, source, entity, q } = req.query as any;
+
+      if (entityType !== undefined && !ENTITY_TYPES.has(entityType)) {
+        return res.status(400).json({ message: "Invalid entityType" });
+      }
+      if (source !== undefined && !SOURCES.has(source)) {
+        return res.status(400).json({ message: "Invalid source" });
+      }
+      if (entity !== undefined && !isValidObjectId(entity)) {
+        return res.status(400).json({ message: "Invalid entity" });
+      }
+
+      const result = await slugRedirectRepo.list({
+        page: Math.max(Number(page) || 1, 1),
+        limit: Number(limit) || 20,
+        entityType,
+        source,
+        entity,
+        q: q ? String(q) : undefined,
+      });
+      res.json(result);
+    } catch (err: any) {
+      console.error("[REDIRECT LIST]", err);
+      res.status(500).json({ message: "Failed to list redirects" });
+    }
+  },
+
+  async createRedirect(req: AuthAdminRequest, res: Response) {
+    try {
+      const body = req.body || {};
+
+      const entityType = body.entityType as SlugRedirectEntityType;
+      if (!ENTITY_TYPES.has(entityType)) {
+        return res.status(400).json({
+          message: `entityType must be one of: ${[...ENTITY_TYPES].join(", ")}`,
+        });
+      }
+
+      const fromSlug = normalizeSlug(body.fromSlug);
+      if (!fromSlug) {
+        return res.status(400).json({ message: "fromSlug is required" });
+      }
+
+      const locale = parseLocale(body.locale);
+      if (locale === "invalid") {
+        return res.status(400).json({ message: "locale must be vi or en" });
+      }
+
+      const entityId = String(body.entityId || "");
+      if (!(await entityExists(entityType, entityId))) {
+        return res.status(400).json({ message: "Target entity not found" });
+      }
+
+      if (await slugInUse(entityType, fromSlug)) {
+        return res.status(409).json({
+          message: "fromSlug is the current slug of an existing entity",
+          code: "SLUG_IN_USE",
+        });
+      }
+
+      const doc = await slugRedirectRepo.create({
+        entityType,
+        fromSlug,
+        locale: locale ?? null,
+        entity: entityId,
+        createdBy: req.adminUser?.id,
+      });
+
+      void audit(req, {
+        action: "create",
+        entityType: "redirect",
+        entityId: String(doc._id),
+        after: doc,
+      });
+
+      res.status(201).json(doc);
+    } catch (err: any) {
+      console.error("[REDIRECT CREATE]", err);
+
+      if (err?.code === 11000) {
+        return res.status(409).json({ message: "Redirect already exists" });
+      }
+
+      res.status(400).json({ message: err?.message || "Create failed" });
+    }
+  },
+
+  async updateRedirect(req: AuthAdminRequest, res: Response) {
+    try {
+      const body = req.body || {};
+      const before = await slugRedirectRepo.getById(req.params.id);
+      if (!before) {
+        return res.status(404).json({ message: "Not found" });
+      }
+
+      const data: {
+        fromSlug?: string;
+        locale?: Locale | null;
+        entity?: string;
+      } = {};
+
+      if (body.fromSlug !== undefined) {
+        const fromSlug = normalizeSlug(body.fromSlug);
+        if (!fromSlug) {
+          return res.status(400).json({ message: "fromSlug is required" });
+        }
+        if (
+          fromSlug !== before.fromSlug &&
+          (await slugInUse(before.entityType, fromSlug))
+        ) {
+          return res.status(409).json({
+            message: "fromSlug is the current slug of an existing entity",
+            code: "SLUG_IN_USE",
+          });
+        }
+        data.fromSlug = fromSlug;
+      }
+
+      const locale = parseLocale(body.locale);
+      if (locale === "invalid") {
+        return res.status(400).json({ message: "locale must be vi or en" });
+      }
+      if (locale !== undefined) data.locale = locale;
+
+      if (body.entityId !== undefined) {
+        const entityId = String(body.entityId || "");
+        if (!(await entityExists(before.entityType, entityId))) {
+          return res.status(400).json({ message: "Target entity not found" });
+        }
+        data.entity = entityId;
+      }
+
+      const updated = await slugRedirectRepo.update(req.params.id, data);
+      if (!updated) {
+        return res.status(404).json({ message: "Not found" });
+      }
+
+      void audit(req, {
+        action: "update",
+        entityType: "redirect",
+        entityId: String(updated._id),
+        before,
+        after: updated,
+      });
+
+      res.json(updated);
+    } catch (err: any) {
+      console.error("[REDIRECT UPDATE]", err);
+
+      if (err?.code === 11000) {
+        return res.status(409).json({ message: "Redirect already exists" });
+      }
+
+      res.status(400).json({ message: err?.message || "Update failed" });
+    }
+  },
+
+  async deleteRedirect(req: AuthAdminRequest, res: Response) {
+    try {
+      const deleted = await slugRedirectRepo.delete(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Not found" });
+      }
+
+      void audit(req, {
+        action: "delete",
+        entityType: "redirect",
+        entityId: String(deleted._id),
+        before: deleted,
+      });
+
+      res.json({ message: "Deleted successfully" });
+    } catch (err: any) {
+      console.error("[REDIRECT DELETE]", err);
+      res.status(400).json({ message: err?.message || "Delete failed" });
+    }
+  },
+};
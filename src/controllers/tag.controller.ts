@@ -0,0 +1,256 @@
+import { Request, Response } from "express";
+import {
+  tagRepo,
+  TAGGED_ENTITY_TYPES,
+  type TaggedEntityType,
+} from "../repositories/tag.repo";
+import { detectLocale } from "../i18n/localize";
+import { DEFAULT_LOCALE, normalizeLocale } from "../i18n/types";
+import type { AuthAdminRequest } from "../middlewares/authAdmin";
+import { audit } from "../services/audit";
+import { invalidateRelatedBlogs } from "../services/relatedBlogs";
+
+const MAX_TAG_LENGTH = 100;
+const MAX_MERGE_SOURCES = 50;
+const CLOUD_WEIGHTS = 5;
+
+// Tag hợp lệ: chuỗi 1..100 ký tự sau khi trim, ngược lại trả về null
+const parseTag = (input: any) => {
+  if (typeof input !== "string") return null;
+  const tag = input.trim();
+  return tag && tag.length <= MAX_TAG_LENGTH ? tag : null;
+};
+
+const isEntityType = (input: any): input is TaggedEntityType =>
+  TAGGED_ENTITY_TYPES.includes(input);
+
+// Trọng số 1..5 theo thang log để tag phổ biến không lấn át cả cloud
+const cloudWeight = (count: number, min: number, max: number) => {
+  if (max === min) return 1;
+  const ratio =
+    (Math.log(count) - Math.log(min)) / (Math.log(max) - Math.log(min));
+  return 1 + Math.round(ratio * (CLOUD_WEIGHTS - 1));
+};
+
+export const tagController = {
+  async listTags(req: Request, res: Response) {
+    try {
+      const { entityType, published, q } = req.query as any;
+
+      if (entityType !== undefined && !isEntityType(entityType)) {
+        return res.status(400).json({ message: "Invalid entityType" });
+      }
+
+      const items = await tagRepo.listUsage({
+        entityType,
+        published: published === "true",
+        q: q ? String(q) : undefined,
+      });
+      res.json({ items, total: items.length });
+    } catch (err: any) {
+      console.error("[TAG LIST]", err);
+      res.status(500).json({ message: "Failed to list tags" });
+    }
+  },
+
+  async renameTag(req: AuthAdminRequest, res: Response) {
+    try {
+      const from = parseTag(req.body?.from);
+      const to = parseTag(req.body?.to);
+      if (!from || !to) {
+        return res.status(400).json({
+          message: `from and to are required (max ${MAX_TAG_LENGTH} characters)`,
+        });
+      }
+      if (from === to) {
+        return res.status(400).json({ message: "from and to must differ" });
+      }
+
+      const modified = await tagRepo.merge([from], to);
+      if (modified.blog) invalidateRelatedBlogs();
+
+      void audit(req, {
+        action: "update",
+        entityType: "tag",
+        entityId: to,
+        meta: { operation: "rename", from, to, modified },
+      });
+
+      res.json({ from, to, modified });
+    } catch (err: any) {
+      console.error("[TAG RENAME]", err);
+      res.status(400).json({ message: err?.message || "Rename tag failed" });
+    }
+  },
+
+  async mergeTags(req: AuthAdminRequest, res: Response) {
+    try {
+      const target = parseTag(req.body?.target);
+      const rawSources = req.body?.sources;
+      if (
+        !target ||
+        !Array.isArray(rawSources) ||
+        !rawSources.length ||
+        rawSources.length > MAX_MERGE_SOURCES
+      ) {
+        return res.status(400).json({
+          message: `target and sources (1..${MAX_MERGE_SOURCES} tags) are required`,
+        });
+      }
+
+      const sources = rawSources.map(parseTag);
+      if (sources.some((s) => !s)) {
+        return res.status(400).json({
+          message: `sources must be non-empty strings (max ${MAX_TAG_LENGTH} characters)`,
+        });
+      }
+
+      const froms = Array.from(new Set(sources as string[])).filter(
+        (s) => s !== target
+      );
+      if (!froms.length) {
+        return res
+          .status(400)
+          .json({ message: "sources must contain a tag other than target" });
+      }
+
+      const modified = await tagRepo.merge(froms, target);
+      if (modified.blog) invalidateRelatedBlogs();
+
+      void audit(req, {
+        action: "update",
+        entityType: "tag",
+        entityId: target,
+        meta: { operation: "merge", sources: froms, target, modified },
+      });
+
+      res.json({ sources: froms, target, modified });
+    } catch (err: any) {
+      console.error("[TAG MERGE]", err);
+      res.status(400).json({ message: err?.message || "Merge tags failed" });
+    }
+  },
+
+  async deleteTag(req: AuthAdminRequest, res: Response) {
+    try {
+      const tag = parseTag(req.params.tag);
+      if (!tag) return res.status(400).json({ message: "Invalid tag" });
+
+      const modified = await tagRepo.remove(tag);
+      if (modified.blog) invalidateRelatedBlogs();
+
+      void audit(req, {
+        action: "delete",
+        entityType: "tag",
+        entityId: tag,
+        meta: { modified },
+      });
+
+      res.json({ message: "Deleted successfully", tag, modified });
+    } catch (err: any) {
+      console.error("[TAG DELETE]", err);
+      res.status(400).json({ message: err?.message || "Delete tag failed" });
+    }
+  },
+
+  async setTagLabel(req: AuthAdminRequest, res: Response) {
+    try {
+      const tag = parseTag(req.params.tag);
+      if (!tag) return res.status(400).json({ message: "Invalid tag" });
+
+      const label = req.body?.label_i18n;
+      const vi = typeof label?.vi === "string" ? label.vi.trim() : "";
+      const en = typeof label?.en === "string" ? label.en.trim() : "";
+      if (!vi && !en) {
+        return res.status(400).json({
+          message: "At least one localized label (vi/en) is required",
+        });
+      }
+
+      const before = await tagRepo.getLabels([tag]);
+      const doc = await tagRepo.setLabel(
+        tag,
+        { vi: vi || undefined, en: en || undefined },
+        req.adminUser?.id
+      );
+
+      void audit(req, {
+        action: before.has(tag) ? "update" : "create",
+        entityType: "tag",
+        entityId: tag,
+        before: before.get(tag),
+        after: doc?.label_i18n,
+      });
+
+      res.json(doc);
+    } catch (err: any) {
+      console.error("[TAG LABEL SET]", err);
+      res.status(400).json({ message: err?.message || "Save label failed" });
+    }
+  },
+
+  async deleteTagLabel(req: AuthAdminRequest, res: Response) {
+    try {
+      const tag = parseTag(req.params.tag);
+      if (!tag) return res.status(400).json({ message: "Invalid tag" });
+
+      const deleted = await tagRepo.deleteLabel(tag);
+      if (!deleted) {
+        return res.status(404).json({ message: "Not found" });
+      }
+
+      void audit(req, {
+        action: "delete",
+        entityType: "tag",
+        entityId: tag,
+        before: deleted.label_i18n,
+      });
+
+      res.json({ message: "Deleted successfully" });
+    } catch (err: any) {
+      console.error("[TAG LABEL DELETE]", err);
+      res.status(400).json({ message: err?.message || "Delete label failed" });
+    }
+  },
+
+  /**
+   * Tag cloud public: chỉ đếm bài / sản phẩm đang public, nhãn theo locale
+   */
+  publicTagCloud(entityType: TaggedEntityType) {
+    return async (req: Request, res: Response) => {
+      try {
+        const locale = normalizeLocale(
+          (req.query.locale as any) ||
+            detectLocale(req.headers["accept-language"] as string)
+        );
+        const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+
+        const usage = await tagRepo.listUsage({ entityType, published: true });
+        const top = usage
+          .map((u) => ({
+            tag: u.tag,
+            count: u.counts[entityType].published,
+            label:
+              u.label_i18n?.[locale] || u.label_i18n?.[DEFAULT_LOCALE] || u.tag,
+          }))
+          .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+          .slice(0, limit);
+
+        const counts = top.map((t) => t.count);
+        const min = Math.min(...counts);
+        const max = Math.max(...counts);
+
+        res.setHeader("Vary", "Accept-Language");
+        res.json({
+          items: top.map((t) => ({
+            ...t,
+            weight: cloudWeight(t.count, min, max),
+          })),
+        });
+      } catch (err: any) {
+        console.error("[TAG CLOUD]", err);
+        res.status(500).json({ message: "Failed to list tags" });
+      }
+    };
+  },
+};
@@ -0,0 +1,172 @@
+import { Response } from "express";
+import { userRepo } from "../repositories/user.repo";
+import { securitySettingsRepo } from "../repositories/securitySettings.repo";
+import { twoFactorService } from "../services/twoFactor";
+import { verifyPassword } from "../utils/password";
+import type { AuthAdminRequest } from "../middlewares/authAdmin";
+import type { IUser } from "../models/User";
+
+async function loadCurrentUser(req: AuthAdminRequest, res: Response) {
+  if (!req.adminUser) {
+    res.status(401).json({ message: "Unauthorized" });
+    return null;
+  }
+  const user = await userRepo.getById(req.adminUser.id);
+  if (!user) {
+    res.status(404).json({ message: "User not found" });
+    return null;
+  }
+  return user;
+}
+
+// Xác nhận lại danh tính bằng mật khẩu hiện tại hoặc mã TOTP
+async function confirmIdentity(
+  user: IUser,
+  body: { password?: string; code?: string }
+) {
+  if (body.code && twoFactorService.verifyCode(user, body.code)) return true;
+  if (body.password && user.passwordHash) {
+    return verifyPassword(body.password, user.passwordHash);
+  }
+  return false;
+}
+
+export const twoFactorController = {
+  async status(req: AuthAdminRequest, res: Response) {
+    try {
+      const user = await loadCurrentUser(req, res);
+      if (!user) return;
+
+      const settings = await securitySettingsRepo.get();
+      res.json({
+        enabled: !!user.twoFactor?.enabled,
+        enabledAt: user.twoFactor?.enabledAt || null,
+        recoveryCodesRemaining: twoFactorService.remainingRecoveryCodes(user),
+        required:
+          user.role === "super_admin" &&
+          settings.requireTwoFactorForSuperAdmins,
+      });
+    } catch (err: any) {
+      console.error("[2FA STATUS]", err);
+      res.status(500).json({ message: "Failed to get 2FA status" });
+    }
+  },
+
+  async setup(req: AuthAdminRequest, res: Response) {
+    try {
+      const user = await loadCurrentUser(req, res);
+      if (!user) return;
+
+      if (user.twoFactor?.enabled) {
+        return res
+          .status(409)
+          .json({ message: "Two-factor authentication is already enabled" });
+      }
+
+      const enrollment = twoFactorService.startEnrollment(user);
+      await user.save();
+
+      res.json(enrollment);
+    } catch (err: any) {
+      console.error("[2FA SETUP]", err);
+      res.status(500).json({ message: "Failed to start 2FA setup" });
+    }
+  },
+
+  async enable(req: AuthAdminRequest, res: Response) {
+    try {
+      const user = await loadCurrentUser(req, res);
+      if (!user) return;
+
+      const { code } = (req.body || {}) as { code?: string };
+      if (!code) {
+        return res.status(400).json({ message: "code is required" });
+      }
+
+      if (user.twoFactor?.enabled) {
+        return res
+          .status(409)
+          .json({ message: "Two-factor authentication is already enabled" });
+      }
+      if (!user.twoFactor?.pendingSecret) {
+        return res
+          .status(400)
+          .json({ message: "Start 2FA setup before enabling it" });
+      }
+
+      const recoveryCodes = twoFactorService.confirmEnrollment(user, code);
+      if (!recoveryCodes) {
+        return res.status(400).json({ message: "Invalid code" });
+      }
+      await user.save();
+
+      res.json({ enabled: true, recoveryCodes });
+    } catch (err: any) {
+      console.error("[2FA ENABLE]", err);
+      res.status(500).json({ message: "Failed to enable 2FA" });
+    }
+  },
+
+  async disable(req: AuthAdminRequest, res: Response) {
+    try {
+      const user = await loadCurrentUser(req, res);
+      if (!user) return;
+
+      if (!user.twoFactor?.enabled) {
+        return res
+          .status(400)
+          .json({ message: "Two-factor authentication is not enabled" });
+      }
+
+      const settings = await securitySettingsRepo.get();
+      if (
+        user.role === "super_admin" &&
+        settings.requireTwoFactorForSuperAdmins
+      ) {
+        return res.status(409).json({
+          message: "Two-factor authentication is required for super admins",
+        });
+      }
+
+      if (!(await confirmIdentity(user, req.body || {}))) {
+        return res
+          .status(400)
+          .json({ message: "Current password or a valid code is required" });
+      }
+
+      twoFactorService.disable(user);
+      await user.save();
+
+      res.json({ enabled: false });
+    } catch (err: any) {
+      console.error("[2FA DISABLE]", err);
+      res.status(500).json({ message: "Failed to disable 2FA" });
+    }
+  },
+
+  async regenerateRecoveryCodes(req: AuthAdminRequest, res: Response) {
+    try {
+      const user = await loadCurrentUser(req, res);
+      if (!user) return;
+
+      if (!user.twoFactor?.enabled) {
+        return res
+          .status(400)
+          .json({ message: "Two-factor authentication is not enabled" });
+      }
+
+      const { code } = (req.body || {}) as { code?: string };
+      if (!code || !twoFactorService.verifyCode(user, code)) {
+        return res.status(400).json({ message: "Invalid code" });
+      }
+
+      const recoveryCodes = twoFactorService.regenerateRecoveryCodes(user);
+      await user.save();
+
+      res.json({ recoveryCodes });
+    } catch (err: any) {
+      console.error("[2FA RECOVERY CODES]", err);
+      res.status(500).json({ message: "Failed to regenerate recovery codes" });
+    }
+  },
+};
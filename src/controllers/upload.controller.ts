@@ -1,5 +1,7 @@
-import { Request, Response } from "express";
+import { Response } from "express";
 import { uploadSingle, uploadMultiple } from "../middlewares/upload";
+import type { AuthAdminRequest } from "../middlewares/authAdmin";
+import { audit } from "../services/audit";
 
 function buildInline(url: string) {
   try {
@@ -52,7 +54,7 @@ function normalizeDownloadFileName(
 export const uploadController = {
   single: [
     uploadSingle,
-    (req: Request, res: Response) => {
+    (req: AuthAdminRequest, res: Response) => {
       const f = req.file as CloudinaryUploadedFile | undefined;
       if (!f) return res.status(400).json({ message: "No file uploaded" });
 
@@ -74,6 +76,13 @@ export const uploadController = {
       const view_url = buildInline(secureUrl);
       const download_url = buildAttachment(secureUrl, downloadFileName);
 
+      void audit(req, {
+        action: "upload",
+        entityType: "upload",
+        entityId: publicId,
+        meta: { url: secureUrl, bytes, resourceType, format },
+      });
+
       res.json({
         url: secureUrl,
         publicId,
@@ -89,7 +98,7 @@ export const uploadController = {
 
   multi: [
     uploadMultiple,
-    (req: Request, res: Response) => {
+    (req: AuthAdminRequest, res: Response) => {
       const files = (req.files as CloudinaryUploadedFile[]) || [];
 
       const items = files.map((f) => {
@@ -121,6 +130,20 @@ export const uploadController = {
         };
       });
 
+      if (items.length) {
+        void audit(req, {
+          action: "upload",
+          entityType: "upload",
+          meta: {
+            files: items.map((item) => ({
+              publicId: item.publicId,
+              url: item.url,
+              bytes: item.bytes,
+            })),
+          },
+        });
+      }
+
       res.json({ items });
     },
   ],
@@ -0,0 +1,303 @@
+import { Request, Response } from "express";
+import { userRepo } from "../repositories/user.repo";
+import { sessionRepo } from "../repositories/session.repo";
+import { loginHistoryRepo } from "../repositories/loginHistory.repo";
+import { twoFactorService } from "../services/twoFactor";
+import { hashPassword, validatePassword } from "../utils/password";
+import type { IUser, Role } from "../models/User";
+import type { AuthAdminRequest } from "../middlewares/authAdmin";
+
+const ROLES = new Set<Role>(["super_admin", "editor"]);
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const parseBody = (input: any) => {
+  if (typeof input === "string") {
+    try {
+      return JSON.parse(input);
+    } catch {
+      return null;
+    }
+  }
+  return input;
+};
+
+export const toPublicUser = (user: IUser) => ({
+  id: user.id,
+  email: user.email,
+  name: user.name,
+  role: user.role,
+  provider: user.provider,
+  isActive: user.isActive,
+  lastLoginAt: user.lastLoginAt,
+  lockedUntil: user.lockedUntil,
+  twoFactorEnabled: !!user.twoFactor?.enabled,
+  createdAt: user.createdAt,
+  updatedAt: user.updatedAt,
+});
+
+/**
+ * Chặn thao tác làm mất super_admin active cuối cùng (hạ quyền / vô hiệu hoá)
+ */
+async function isLastActiveSuperAdmin(user: IUser) {
+  if (user.role !== "super_admin" || !user.isActive) return false;
+  const others = await userRepo.countActiveSuperAdmins(user.id);
+  return others === 0;
+}
+
+export const userController = {
+  async listUsers(req: Request, res: Response) {
+    try {
+      const { page, limit, q, role, includeInactive } = req.query as any;
+
+      if (role !== undefined && !ROLES.has(role)) {
+        return res.status(400).json({ message: "Invalid role" });
+      }
+
+      const result = await userRepo.list({
+        page: Math.max(Number(page) || 1, 1),
+        limit: Math.min(Math.max(Number(limit) || 20, 1), 100),
+        q: q ? String(q) : undefined,
+        role: role as Role | undefined,
+        includeInactive: includeInactive === "true",
+      });
+
+      res.json({ ...result, items: result.items.map(toPublicUser) });
+    } catch (err: any) {
+      console.error("[USER LIST]", err);
+      res.status(500).json({ message: "Failed to list users" });
+    }
+  },
+
+  async getUserById(req: Request, res: Response) {
+    try {
+      const user = await userRepo.getById(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toPublicUser(user));
+    } catch (err: any) {
+      console.error("[USER GET]", err);
+      res.status(500).json({ message: "Failed to get user" });
+    }
+  },
+
+  async createUser(req: Request, res: Response) {
+    try {
+      const body = parseBody(req.body);
+      if (!body || typeof body !== "object") {
+        return res.status(400).json({ message: "Missing JSON body" });
+      }
+
+      const email =
+        typeof body.email === "string" ? body.email.trim().toLowerCase() : "";
+      if (!EMAIL_RE.test(email)) {
+        return res.status(400).json({ message: "A valid email is required" });
+      }
+
+      const passwordError = validatePassword(body.password);
+      if (passwordError) {
+        return res.status(400).json({ message: passwordError });
+      }
+
+      const role: Role = body.role ?? "editor";
+      if (!ROLES.has(role)) {
+        return res.status(400).json({ message: "Invalid role" });
+      }
+
+      const existing = await userRepo.getByEmail(email);
+      if (existing) {
+        return res.status(409).json({ message: "Email already exists" });
+      }
+
+      const user = await userRepo.create({
+        email,
+        name: typeof body.name === "string" ? body.name : undefined,
+        role,
+        provider: "local",
+        passwordHash: await hashPassword(body.password),
+        isActive: body.isActive !== false,
+      });
+
+      res.status(201).json(toPublicUser(user));
+    } catch (err: any) {
+      console.error("[USER CREATE]", err);
+
+      if (err?.code === 11000) {
+        return res.status(409).json({ message: "Email already exists" });
+      }
+
+      res.status(400).json({ message: err?.message || "Create user failed" });
+    }
+  },
+
+  async updateUser(req: AuthAdminRequest, res: Response) {
+    try {
+      const body = parseBody(req.body);
+      if (!body || typeof body !== "object") {
+        return res.status(400).json({ message: "Missing JSON body" });
+      }
+
+      const user = await userRepo.getById(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const data: Partial<IUser> = {};
+
+      if (body.name !== undefined) {
+        if (typeof body.name !== "string") {
+          return res.status(400).json({ message: "name must be a string" });
+        }
+        data.name = body.name;
+      }
+
+      if (body.role !== undefined) {
+        if (!ROLES.has(body.role)) {
+          return res.status(400).json({ message: "Invalid role" });
+        }
+        if (
+          body.role !== "super_admin" &&
+          (await isLastActiveSuperAdmin(user))
+        ) {
+          return res
+            .status(409)
+            .json({ message: "Cannot demote the last active super_admin" });
+        }
+        data.role = body.role;
+      }
+
+      const updated = await userRepo.update(user.id, data);
+      res.json(toPublicUser(updated));
+    } catch (err: any) {
+      console.error("[USER UPDATE]", err);
+      res.status(400).json({ message: err?.message || "Update failed" });
+    }
+  },
+
+  async deactivateUser(req: AuthAdminRequest, res: Response) {
+    try {
+      const user = await userRepo.getById(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (await isLastActiveSuperAdmin(user)) {
+        return res
+          .status(409)
+          .json({ message: "Cannot deactivate the last active super_admin" });
+      }
+
+      const updated = await userRepo.update(user.id, { isActive: false });
+      await sessionRepo.revokeAllForUser(user.id, "deactivated");
+      res.json(toPublicUser(updated));
+    } catch (err: any) {
+      console.error("[USER DEACTIVATE]", err);
+      res.status(400).json({ message: err?.message || "Deactivate failed" });
+    }
+  },
+
+  async activateUser(req: Request, res: Response) {
+    try {
+      const updated = await userRepo.update(req.params.id, { isActive: true });
+      if (!updated) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toPublicUser(updated));
+    } catch (err: any) {
+      console.error("[USER ACTIVATE]", err);
+      res.status(400).json({ message: err?.message || "Activate failed" });
+    }
+  },
+
+  async unlockUser(req: Request, res: Response) {
+    try {
+      const updated = await userRepo.clearLoginLock(req.params.id);
+      if (!updated) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toPublicUser(updated));
+    } catch (err: any) {
+      console.error("[USER UNLOCK]", err);
+      res.status(400).json({ message: err?.message || "Unlock failed" });
+    }
+  },
+
+  // Dùng khi admin mất thiết bị xác thực; user phải enroll lại
+  async resetTwoFactor(req: Request, res: Response) {
+    try {
+      const user = await userRepo.getById(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      twoFactorService.disable(user);
+      await user.save();
+      await sessionRepo.revokeAllForUser(user.id, "two_factor_reset");
+
+      res.json(toPublicUser(user));
+    } catch (err: any) {
+      console.error("[USER RESET 2FA]", err);
+      res.status(400).json({ message: err?.message || "Reset 2FA failed" });
+    }
+  },
+
+  async resetPassword(req: Request, res: Response) {
+    try {
+      const body = parseBody(req.body);
+      const passwordError = validatePassword(body?.password);
+      if (passwordError) {
+        return res.status(400).json({ message: passwordError });
+      }
+
+      const user = await userRepo.getById(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.provider !== "local") {
+        return res
+          .status(400)
+          .json({ message: "Cannot set a password for a non-local account" });
+      }
+
+      await userRepo.update(user.id, {
+        passwordHash: await hashPassword(body.password),
+      });
+      await sessionRepo.revokeAllForUser(user.id, "password_reset");
+      res.json({ message: "Password updated" });
+    } catch (err: any) {
+      console.error("[USER RESET PASSWORD]", err);
+      res.status(400).json({ message: err?.message || "Reset password failed" });
+    }
+  },
+  async listLoginHistory(req: Request, res: Response) {
+    try {
+      const { page, limit, userId, email, success, from, to } =
+        req.query as any;
+
+      const fromDate = from ? new Date(String(from)) : undefined;
+      const toDate = to ? new Date(String(to)) : undefined;
+      if (
+        (fromDate && Number.isNaN(fromDate.valueOf())) ||
+        (toDate && Number.isNaN(toDate.valueOf()))
+      ) {
+        return res.status(400).json({ message: "Invalid date range" });
+      }
+
+      const result = await loginHistoryRepo.list({
+        page: Math.max(Number(page) || 1, 1),
+        limit: Number(limit) || 50,
+        userId: userId ? String(userId) : undefined,
+        email: email ? String(email) : undefined,
+        success:
+          success === "true" ? true : success === "false" ? false : undefined,
+        from: fromDate,
+        to: toDate,
+      });
+
+      res.json(result);
+    } catch (err: any) {
+      console.error("[USER LOGIN HISTORY]", err);
+      res.status(500).json({ message: "Failed to list login history" });
+    }
+  },
+};
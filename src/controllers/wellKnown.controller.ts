@@ -0,0 +1,15 @@
+import { Request, Response } from "express";
+import { getPublicJwks } from "../utils/jwtKeys";
+
+export const wellKnownController = {
+  // Public key để service khác verify access token (gồm cả key cũ đang chờ hết hạn)
+  async jwks(_req: Request, res: Response) {
+    try {
+      res.setHeader("Cache-Control", "public, max-age=300");
+      res.json(getPublicJwks());
+    } catch (err: any) {
+      console.error("[JWKS]", err);
+      res.status(500).json({ message: "Failed to load signing keys" });
+    }
+  },
+};
@@ -1,21 +1,81 @@
 import { NextFunction, Response, Request } from "express";
 import { verifyAccessToken } from "../utils/jwt";
 import { userRepo } from "../repositories/user.repo";
+import { securitySettingsRepo } from "../repositories/securitySettings.repo";
+import { apiKeyRepo } from "../repositories/apiKey.repo";
+import { sessionRepo } from "../repositories/session.repo";
+import { getClientIp } from "../utils/requestInfo";
+import { checkCsrf } from "./csrf";
+import { ROLE_PERMISSIONS } from "../config/permissions";
 
 export interface AuthAdminRequest extends Request {
   adminUser?: {
     id: string;
     email: string;
     role: string;
+    sessionId?: string;
+    // Chỉ có khi xác thực bằng X-Api-Key; id/email là của người tạo key
+    apiKeyId?: string;
+    scopes?: string[];
   };
 }
 
-export async function authAdmin(
+type AuthOpts = {
+  allowPendingTwoFactor: boolean;
+  allowApiKey: boolean;
+};
+
+async function authenticateApiKey(
   req: AuthAdminRequest,
   res: Response,
-  next: NextFunction
+  next: NextFunction,
+  key: string
+) {
+  const apiKey = await apiKeyRepo.findActiveByKey(key);
+  if (!apiKey) {
+    return res.status(401).json({ message: "Invalid API key" });
+  }
+
+  const owner = await userRepo.getById(String(apiKey.createdBy));
+  if (!owner || !owner.isActive) {
+    return res.status(401).json({ message: "API key owner is inactive" });
+  }
+
+  void apiKeyRepo
+    .touch(String(apiKey._id), getClientIp(req))
+    .catch((err) => console.error("authAdmin api key touch error", err));
+
+  req.adminUser = {
+    id: owner.id,
+    email: owner.email,
+    role: "api_key",
+    apiKeyId: String(apiKey._id),
+    // Không vượt quyền hiện tại của người tạo key (vd. đã bị hạ role)
+    scopes: apiKey.scopes.filter((scope) =>
+      (ROLE_PERMISSIONS[owner.role] || []).includes(scope)
+    ),
+  };
+
+  return next();
+}
+
+async function authenticate(
+  req: AuthAdminRequest,
+  res: Response,
+  next: NextFunction,
+  opts: AuthOpts
 ) {
   try {
+    const apiKeyHeader = req.headers["x-api-key"];
+    if (typeof apiKeyHeader === "string" && apiKeyHeader.trim()) {
+      if (!opts.allowApiKey) {
+        return res
+          .status(401)
+          .json({ message: "API keys are not accepted for this route" });
+      }
+      return await authenticateApiKey(req, res, next, apiKeyHeader.trim());
+    }
+
     const authHeader = req.headers.authorization;
     const bearerToken =
       authHeader && authHeader.startsWith("Bearer ")
@@ -29,20 +89,50 @@ export async function authAdmin(
       return res.status(401).json({ message: "Unauthorized" });
     }
 
+    // Cookie được trình duyệt gửi tự động nên cần chống CSRF; Bearer thì không
+    if (!bearerToken) {
+      const csrfError = checkCsrf(req);
+      if (csrfError) return res.status(403).json(csrfError);
+    }
+
     const payload = verifyAccessToken(token);
     if (!payload?.sub) {
       return res.status(401).json({ message: "Invalid token" });
     }
 
+    // Access token gắn với phiên: thu hồi / hết hạn phiên thì token hết hiệu lực ngay
+    if (
+      !payload.sid ||
+      !(await sessionRepo.isFamilyActive(payload.sid, payload.sub))
+    ) {
+      return res.status(401).json({
+        message: "Session expired or revoked",
+        code: "SESSION_REVOKED",
+      });
+    }
+
     const user = await userRepo.getById(payload.sub);
     if (!user || !user.isActive) {
       return res.status(401).json({ message: "User not found or inactive" });
     }
 
+    if (
+      !opts.allowPendingTwoFactor &&
+      user.role === "super_admin" &&
+      !user.twoFactor?.enabled &&
+      (await securitySettingsRepo.get()).requireTwoFactorForSuperAdmins
+    ) {
+      return res.status(403).json({
+        message: "Two-factor authentication must be enabled for this account",
+        code: "TWO_FACTOR_SETUP_REQUIRED",
+      });
+    }
+
     req.adminUser = {
       id: user.id,
       email: user.email,
       role: user.role,
+      sessionId: payload.sid,
     };
 
     return next();
@@ -51,3 +141,38 @@ export async function authAdmin(
     return res.status(401).json({ message: "Unauthorized" });
   }
 }
+
+export function authAdmin(
+  req: AuthAdminRequest,
+  res: Response,
+  next: NextFunction
+) {
+  return authenticate(req, res, next, {
+    allowPendingTwoFactor: false,
+    allowApiKey: true,
+  });
+}
+
+// Route tự quản lý tài khoản (mật khẩu, phiên, 2FA): chỉ user thật, không nhận API key
+export function authAdminUser(
+  req: AuthAdminRequest,
+  res: Response,
+  next: NextFunction
+) {
+  return authenticate(req, res, next, {
+    allowPendingTwoFactor: false,
+    allowApiKey: false,
+  });
+}
+
+// Cho các route cần dùng được khi policy bắt buộc 2FA mà user chưa bật (enroll, me, logout)
+export function authAdminAllowPending2fa(
+  req: AuthAdminRequest,
+  res: Response,
+  next: NextFunction
+) {
+  return authenticate(req, res, next, {
+    allowPendingTwoFactor: true,
+    allowApiKey: false,
+  });
+}
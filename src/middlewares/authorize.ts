@@ -0,0 +1,26 @@
+import { NextFunction, Response } from "express";
+import { hasPermission, type Permission } from "../config/permissions";
+import type { AuthAdminRequest } from "./authAdmin";
+
+/**
+ * Dùng sau authAdmin: yêu cầu user có đủ tất cả permission được liệt kê
+ */
+export function authorize(...permissions: Permission[]) {
+  return (req: AuthAdminRequest, res: Response, next: NextFunction) => {
+    if (!req.adminUser) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const missing = permissions.find(
+      (p) => !hasPermission(req.adminUser, p)
+    );
+    if (missing) {
+      return res.status(403).json({
+        message: `Forbidden: missing permission "${missing}"`,
+        permission: missing,
+      });
+    }
+
+    return next();
+  };
+}
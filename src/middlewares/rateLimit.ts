@@ -0,0 +1,68 @@
+import type { Request, Response } from "express";
+import rateLimit, { ipKeyGenerator, type Options } from "express-rate-limit";
+import { loginHistoryRepo } from "../repositories/loginHistory.repo";
+import { getClientIp, getUserAgent } from "../utils/requestInfo";
+
+const WINDOW_MS =
+  (Number(process.env.LOGIN_RATE_WINDOW_MINUTES) || 15) * 60 * 1000;
+
+const tooManyRequests = {
+  message: "Too many attempts. Please try again later.",
+};
+
+const ipKey = (req: Request) => ipKeyGenerator(req.ip || "");
+
+// Ghi lại lần đăng nhập bị chặn vào login history rồi trả 429 (Retry-After đã được set)
+const loginLimitHandler = (
+  req: Request,
+  res: Response,
+  _next: unknown,
+  options: Options
+) => {
+  const email = req.body?.email;
+  void loginHistoryRepo.record({
+    email: typeof email === "string" ? email : undefined,
+    method: "password",
+    success: false,
+    reason: "rate_limited",
+    ip: getClientIp(req),
+    userAgent: getUserAgent(req),
+  });
+  res.status(options.statusCode).json(options.message);
+};
+
+// Giới hạn theo IP cho login (mọi email)
+export const loginIpLimiter = rateLimit({
+  windowMs: WINDOW_MS,
+  limit: Number(process.env.LOGIN_RATE_LIMIT_PER_IP) || 30,
+  standardHeaders: "draft-8",
+  legacyHeaders: false,
+  keyGenerator: ipKey,
+  message: tooManyRequests,
+  handler: loginLimitHandler,
+});
+
+// Giới hạn theo email để chặn dò mật khẩu phân tán qua nhiều IP
+export const loginEmailLimiter = rateLimit({
+  windowMs: WINDOW_MS,
+  limit: Number(process.env.LOGIN_RATE_LIMIT_PER_EMAIL) || 10,
+  standardHeaders: "draft-8",
+  legacyHeaders: false,
+  keyGenerator: (req) => {
+    const email = req.body?.email;
+    return typeof email === "string" && email.trim()
+      ? `email:${email.trim().toLowerCase()}`
+      : `ip:${ipKey(req)}`;
+  },
+  message: tooManyRequests,
+  handler: loginLimitHandler,
+});
+
+export const refreshLimiter = rateLimit({
+  windowMs: WINDOW_MS,
+  limit: Number(process.env.REFRESH_RATE_LIMIT_PER_IP) || 60,
+  standardHeaders: "draft-8",
+  legacyHeaders: false,
+  keyGenerator: ipKey,
+  message: tooManyRequests,
+});
@@ -0,0 +1,43 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+import type { Permission } from "../config/permissions";
+
+export interface IApiKey extends Document {
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: Permission[];
+  expiresAt?: Date | null;
+  lastUsedAt?: Date | null;
+  lastUsedIp?: string;
+  createdBy: mongoose.Types.ObjectId;
+  revokedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ApiKeySchema = new Schema<IApiKey>(
+  {
+    name: { type: String, required: true, trim: true, maxlength: 100 },
+    prefix: { type: String, required: true, trim: true },
+    keyHash: { type: String, required: true },
+    scopes: { type: [String], default: [] },
+    expiresAt: { type: Date, default: null },
+    lastUsedAt: { type: Date, default: null },
+    lastUsedIp: { type: String, trim: true },
+    createdBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    revokedAt: { type: Date, default: null },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+ApiKeySchema.index({ keyHash: 1 }, { unique: true });
+ApiKeySchema.index({ prefix: 1 });
+ApiKeySchema.index({ revokedAt: 1, createdAt: -1 });
+
+const ApiKeyModel: Model<IApiKey> =
+  (mongoose.models.ApiKey as Model<IApiKey>) ||
+  mongoose.model<IApiKey>("ApiKey", ApiKeySchema);
+
+export default ApiKeyModel;
@@ -0,0 +1,142 @@
+import mongoose, {
+  Document,
+  Schema,
+  Model,
+  type MongooseDefaultQueryMiddleware,
+} from "mongoose";
+
+export type AuditAction =
+  | "create"
+  | "update"
+  | "delete"
+  | "publish"
+  | "archive"
+  | "schedule"
+  | "submit"
+  | "approve"
+  | "reject"
+  | "restore"
+  | "upload";
+export type AuditEntityType =
+  | "blog"
+  | "product"
+  | "homeContent"
+  | "upload"
+  | "redirect"
+  | "blogCategory"
+  | "blogSeries"
+  | "tag";
+
+export interface AuditChange {
+  path: string;
+  before?: any;
+  after?: any;
+  truncated?: boolean;
+}
+
+export interface IAuditLog extends Document {
+  actor: {
+    user?: mongoose.Types.ObjectId | null;
+    email?: string;
+    role?: string;
+    apiKey?: mongoose.Types.ObjectId | null;
+  };
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId?: string;
+  changes: AuditChange[];
+  meta?: Record<string, any>;
+  ip?: string;
+  userAgent?: string;
+  createdAt: Date;
+}
+
+const AuditChangeSchema = new Schema<AuditChange>(
+  {
+    path: { type: String, required: true },
+    before: { type: Schema.Types.Mixed },
+    after: { type: Schema.Types.Mixed },
+    truncated: { type: Boolean },
+  },
+  { _id: false }
+);
+
+const AuditLogSchema = new Schema<IAuditLog>(
+  {
+    actor: {
+      user: { type: Schema.Types.ObjectId, ref: "User", default: null },
+      email: { type: String, trim: true },
+      role: { type: String, trim: true },
+      apiKey: { type: Schema.Types.ObjectId, ref: "ApiKey", default: null },
+    },
+    action: {
+      type: String,
+      enum: [
+        "create",
+        "update",
+        "delete",
+        "publish",
+        "archive",
+        "schedule",
+        "submit",
+        "approve",
+        "reject",
+        "restore",
+        "upload",
+      ],
+      required: true,
+    },
+    entityType: {
+      type: String,
+      enum: [
+        "blog",
+        "product",
+        "homeContent",
+        "upload",
+        "redirect",
+        "blogCategory",
+        "blogSeries",
+        "tag",
+      ],
+      required: true,
+    },
+    entityId: { type: String, trim: true },
+    changes: { type: [AuditChangeSchema], default: [] },
+    meta: { type: Schema.Types.Mixed, default: undefined },
+    ip: { type: String, trim: true },
+    userAgent: { type: String, trim: true, maxlength: 500 },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// Append-only: chặn mọi thao tác sửa/xoá qua model
+const rejectMutation = function (next: (err?: Error) => void) {
+  next(new Error("Audit log is append-only"));
+};
+const MUTATION_OPS: MongooseDefaultQueryMiddleware[] = [
+  "updateOne",
+  "updateMany",
+  "findOneAndUpdate",
+  "replaceOne",
+  "deleteOne",
+  "deleteMany",
+  "findOneAndDelete",
+];
+AuditLogSchema.pre(MUTATION_OPS, rejectMutation);
+AuditLogSchema.pre("save", function (next) {
+  if (!this.isNew) return next(new Error("Audit log is append-only"));
+  next();
+});
+
+AuditLogSchema.index({ createdAt: -1 });
+AuditLogSchema.index({ entityType: 1, entityId: 1, createdAt: -1 });
+AuditLogSchema.index({ "actor.user": 1, createdAt: -1 });
+AuditLogSchema.index({ action: 1, createdAt: -1 });
+
+const AuditLogModel: Model<IAuditLog> =
+  (mongoose.models.AuditLog as Model<IAuditLog>) ||
+  mongoose.model<IAuditLog>("AuditLog", AuditLogSchema);
+
+export default AuditLogModel;
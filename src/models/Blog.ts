@@ -2,8 +2,11 @@ import mongoose, { Document, Schema } from "mongoose";
 import type { LocalizedString } from "../i18n/types";
 import { LocalizedStringSchema } from "./Common";
 import { normalizeSlug, type TocItem } from "../utils/blogContent";
+import { foldDiacritics } from "../utils/searchText";
 
-export type BlogStatus = "draft" | "published" | "scheduled" | "archived";
+export type BlogStatus =
+  "draft" | "in_review" | "approved" | "published" | "scheduled" | "archived";
+export type BlogReviewDecision = "approved" | "rejected";
 export type RichDocJSON = Record<string, any>;
 
 export interface BlogImage {
@@ -16,6 +19,28 @@ export interface BlogGalleryItem extends BlogImage {
   caption_i18n?: LocalizedString;
 }
 
+export interface BlogReviewComment {
+  author?: mongoose.Types.ObjectId | null;
+  authorEmail?: string;
+  decision?: BlogReviewDecision | null;
+  body: string;
+  createdAt: Date;
+}
+
+export interface BlogReview {
+  submittedAt?: Date | null;
+  submittedBy?: mongoose.Types.ObjectId | null;
+  reviewedAt?: Date | null;
+  reviewedBy?: mongoose.Types.ObjectId | null;
+  decision?: BlogReviewDecision | null;
+  comments: BlogReviewComment[];
+}
+
+export type BlogSearchText = {
+  title: string;
+  body: string;
+};
+
 export interface IBlog extends Document {
   slug: string;
   slug_i18n: {
@@ -34,12 +59,21 @@ export interface IBlog extends Document {
   gallery?: BlogGalleryItem[];
 
   tags?: string[];
+  category?: mongoose.Types.ObjectId | null;
+  series?: mongoose.Types.ObjectId | null;
+  // Thứ tự trong series (prev/next)
+  seriesOrder: number;
+  // Bài liên quan do admin ghim, luôn đứng trước bài được chấm điểm
+  relatedPosts: mongoose.Types.ObjectId[];
 
   status: BlogStatus;
   publishedAt?: Date | null;
   scheduledAt?: Date | null;
   isFeatured: boolean;
   sortOrder: number;
+  review?: BlogReview;
+  // Sửa nội dung của bài đang public: lưu ở đây chờ duyệt, bản live giữ nguyên
+  pendingChanges?: Record<string, any> | null;
 
   seoTitle_i18n?: LocalizedString;
   seoDescription_i18n?: LocalizedString;
@@ -59,6 +93,11 @@ export interface IBlog extends Document {
     en: string;
   };
   readingTimeMinutes: number;
+  // Bản bỏ dấu của title / excerpt + plainText theo từng locale cho text index
+  search?: {
+    vi: BlogSearchText;
+    en: BlogSearchText;
+  };
   stats: {
     viewCount: number;
   };
@@ -108,6 +147,45 @@ const TocItemSchema = new Schema<TocItem>(
   { _id: false }
 );
 
+const ReviewCommentSchema = new Schema<BlogReviewComment>(
+  {
+    author: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    authorEmail: { type: String, trim: true },
+    decision: {
+      type: String,
+      enum: ["approved", "rejected", null],
+      default: null,
+    },
+    body: { type: String, required: true, trim: true, maxlength: 5000 },
+    createdAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
+const ReviewSchema = new Schema<BlogReview>(
+  {
+    submittedAt: { type: Date, default: null },
+    submittedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    reviewedAt: { type: Date, default: null },
+    reviewedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    decision: {
+      type: String,
+      enum: ["approved", "rejected", null],
+      default: null,
+    },
+    comments: { type: [ReviewCommentSchema], default: [] },
+  },
+  { _id: false }
+);
+
+const SearchTextSchema = new Schema<BlogSearchText>(
+  {
+    title: { type: String, default: "" },
+    body: { type: String, default: "" },
+  },
+  { _id: false }
+);
+
 const BlogSchema = new Schema<IBlog>(
   {
     slug: { type: String, required: true, trim: true, lowercase: true },
@@ -124,16 +202,33 @@ const BlogSchema = new Schema<IBlog>(
     gallery: { type: [GalleryItemSchema], default: [] },
 
     tags: [{ type: String, trim: true }],
+    category: {
+      type: Schema.Types.ObjectId,
+      ref: "BlogCategory",
+      default: null,
+    },
+    series: { type: Schema.Types.ObjectId, ref: "BlogSeries", default: null },
+    seriesOrder: { type: Number, default: 0 },
+    relatedPosts: [{ type: Schema.Types.ObjectId, ref: "Blog" }],
 
     status: {
       type: String,
-      enum: ["draft", "published", "scheduled", "archived"],
+      enum: [
+        "draft",
+        "in_review",
+        "approved",
+        "published",
+        "scheduled",
+        "archived",
+      ],
       default: "draft",
     },
     publishedAt: { type: Date, default: null },
     scheduledAt: { type: Date, default: null },
     isFeatured: { type: Boolean, default: false },
     sortOrder: { type: Number, default: 0 },
+    review: { type: ReviewSchema, default: undefined },
+    pendingChanges: { type: Schema.Types.Mixed, default: null, select: false },
 
     seoTitle_i18n: { type: LocalizedStringSchema, default: undefined },
     seoDescription_i18n: { type: LocalizedStringSchema, default: undefined },
@@ -153,6 +248,16 @@ const BlogSchema = new Schema<IBlog>(
       en: { type: String, default: "" },
     },
     readingTimeMinutes: { type: Number, default: 0, min: 0 },
+    search: {
+      type: new Schema(
+        {
+          vi: { type: SearchTextSchema, default: () => ({}) },
+          en: { type: SearchTextSchema, default: () => ({}) },
+        },
+        { _id: false }
+      ),
+      select: false,
+    },
     stats: {
       viewCount: { type: Number, default: 0, min: 0 },
     },
@@ -167,6 +272,31 @@ const BlogSchema = new Schema<IBlog>(
   }
 );
 
+export const buildBlogSearchFields = (
+  blog: Pick<IBlog, "title_i18n" | "excerpt_i18n" | "plainText_i18n">
+) => {
+  const join = (...values: (string | undefined)[]) =>
+    foldDiacritics(values.filter(Boolean).join("\n"));
+  const forLocale = (locale: "vi" | "en"): BlogSearchText => ({
+    title: join(blog.title_i18n?.[locale]),
+    body: join(blog.excerpt_i18n?.[locale], blog.plainText_i18n?.[locale]),
+  });
+  return { vi: forLocale("vi"), en: forLocale("en") };
+};
+
+BlogSchema.pre("save", function (next) {
+  const doc: any = this;
+  if (
+    doc.isNew ||
+    doc.isModified("title_i18n") ||
+    doc.isModified("excerpt_i18n") ||
+    doc.isModified("plainText_i18n")
+  ) {
+    doc.search = buildBlogSearchFields(doc);
+  }
+  next();
+});
+
 BlogSchema.pre("validate", function (next) {
   const doc: any = this;
   if (!doc.slug) {
@@ -187,20 +317,54 @@ BlogSchema.pre("validate", function (next) {
   next();
 });
 
-BlogSchema.index({ "slug_i18n.vi": 1 }, { unique: true });
-BlogSchema.index({ "slug_i18n.en": 1 }, { unique: true });
-BlogSchema.index({ slug: 1 }, { unique: true, sparse: true });
+// Slug chỉ unique giữa các bài chưa xoá, bài trong thùng rác nhả slug cho bài mới.
+// DB cũ cần drop slug_i18n.vi_1, slug_i18n.en_1, slug_1 (`npm run admin -- indexes:check --sync`)
+const NOT_DELETED = { deletedAt: { $type: "null" } };
+BlogSchema.index(
+  { "slug_i18n.vi": 1 },
+  { unique: true, name: "slug_vi_active", partialFilterExpression: NOT_DELETED }
+);
+BlogSchema.index(
+  { "slug_i18n.en": 1 },
+  { unique: true, name: "slug_en_active", partialFilterExpression: NOT_DELETED }
+);
+BlogSchema.index(
+  { slug: 1 },
+  {
+    unique: true,
+    name: "slug_active",
+    partialFilterExpression: { slug: { $type: "string" }, ...NOT_DELETED },
+  }
+);
 BlogSchema.index({ status: 1, publishedAt: -1, isFeatured: -1 });
 BlogSchema.index({ status: 1, deletedAt: 1, publishedAt: -1 });
 BlogSchema.index({ deletedAt: 1 });
-BlogSchema.index({
-  "title_i18n.vi": "text",
-  "title_i18n.en": "text",
-  "excerpt_i18n.vi": "text",
-  "excerpt_i18n.en": "text",
-  "plainText_i18n.vi": "text",
-  "plainText_i18n.en": "text",
-});
+BlogSchema.index({ category: 1, status: 1, publishedAt: -1 });
+BlogSchema.index({ series: 1, seriesOrder: 1, publishedAt: 1 });
+BlogSchema.index({ tags: 1 });
+// Index trên bản bỏ dấu, không stemming (nội dung song ngữ vi/en).
+// Mỗi collection chỉ có 1 text index: DB cũ cần `indexes:check --sync` để thay index trước đó,
+// sau đó `blogs:rebuild-derived` để điền field search cho bài cũ (xem README)
+BlogSchema.index(
+  {
+    "search.vi.title": "text",
+    "search.en.title": "text",
+    "search.vi.body": "text",
+    "search.en.body": "text",
+    tags: "text",
+  },
+  {
+    name: "blog_search_text",
+    default_language: "none",
+    weights: {
+      "search.vi.title": 10,
+      "search.en.title": 10,
+      tags: 5,
+      "search.vi.body": 1,
+      "search.en.body": 1,
+    },
+  }
+);
 
 export const Blog =
   mongoose.models.Blog || mongoose.model<IBlog>("Blog", BlogSchema);
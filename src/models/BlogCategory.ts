@@ -0,0 +1,12 @@
+import mongoose, { Model } from "mongoose";
+import { createBlogTaxonomySchema, type IBlogTaxonomy } from "./BlogTaxonomy";
+
+export type IBlogCategory = IBlogTaxonomy;
+
+const BlogCategorySchema = createBlogTaxonomySchema();
+
+const BlogCategoryModel: Model<IBlogCategory> =
+  (mongoose.models.BlogCategory as Model<IBlogCategory>) ||
+  mongoose.model<IBlogCategory>("BlogCategory", BlogCategorySchema);
+
+export default BlogCategoryModel;
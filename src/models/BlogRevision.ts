@@ -0,0 +1,92 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+
+export type BlogRevisionAction =
+  | "create"
+  | "update"
+  | "publish"
+  | "archive"
+  | "schedule"
+  | "restore"
+  | "submit"
+  | "approve"
+  | "reject"
+  // Bản chụp trạng thái có sẵn của bài cũ (trước khi có revision)
+  | "baseline";
+
+export interface IBlogRevision extends Document {
+  blog: mongoose.Types.ObjectId;
+  version: number;
+  action: BlogRevisionAction;
+  // Bản chụp các field biên tập được của bài sau khi lưu
+  snapshot: Record<string, any>;
+  author: {
+    user?: mongoose.Types.ObjectId | null;
+    email?: string;
+    apiKey?: mongoose.Types.ObjectId | null;
+  };
+  restoredFrom?: number | null;
+  createdAt: Date;
+}
+
+const BlogRevisionSchema = new Schema<IBlogRevision>(
+  {
+    blog: {
+      type: Schema.Types.ObjectId,
+      ref: "Blog",
+      required: true,
+    },
+    version: { type: Number, required: true, min: 1 },
+    action: {
+      type: String,
+      enum: [
+        "create",
+        "update",
+        "publish",
+        "archive",
+        "schedule",
+        "restore",
+        "submit",
+        "approve",
+        "reject",
+        "baseline",
+      ],
+      required: true,
+    },
+    snapshot: { type: Schema.Types.Mixed, required: true },
+    author: {
+      user: { type: Schema.Types.ObjectId, ref: "User", default: null },
+      email: { type: String, trim: true },
+      apiKey: { type: Schema.Types.ObjectId, ref: "ApiKey", default: null },
+    },
+    restoredFrom: { type: Number, default: null },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    minimize: false,
+  }
+);
+
+// Revision không sửa được; chỉ cho xoá (dọn bản cũ / xoá vĩnh viễn bài)
+const rejectMutation = function (next: (err?: Error) => void) {
+  next(new Error("Blog revisions are immutable"));
+};
+for (const op of [
+  "updateOne",
+  "updateMany",
+  "findOneAndUpdate",
+  "replaceOne",
+] as const) {
+  BlogRevisionSchema.pre(op as any, rejectMutation);
+}
+BlogRevisionSchema.pre("save", function (next) {
+  if (!this.isNew) return next(new Error("Blog revisions are immutable"));
+  next();
+});
+
+BlogRevisionSchema.index({ blog: 1, version: -1 }, { unique: true });
+
+const BlogRevisionModel: Model<IBlogRevision> =
+  (mongoose.models.BlogRevision as Model<IBlogRevision>) ||
+  mongoose.model<IBlogRevision>("BlogRevision", BlogRevisionSchema);
+
+export default BlogRevisionModel;
@@ -0,0 +1,12 @@
+import mongoose, { Model } from "mongoose";
+import { createBlogTaxonomySchema, type IBlogTaxonomy } from "./BlogTaxonomy";
+
+export type IBlogSeries = IBlogTaxonomy;
+
+const BlogSeriesSchema = createBlogTaxonomySchema();
+
+const BlogSeriesModel: Model<IBlogSeries> =
+  (mongoose.models.BlogSeries as Model<IBlogSeries>) ||
+  mongoose.model<IBlogSeries>("BlogSeries", BlogSeriesSchema);
+
+export default BlogSeriesModel;
@@ -0,0 +1,69 @@
+import mongoose, { Document, Schema } from "mongoose";
+import type { LocalizedString } from "../i18n/types";
+import { LocalizedStringSchema } from "./Common";
+import type { BlogImage } from "./Blog";
+import { normalizeSlug } from "../utils/blogContent";
+
+// Schema chung cho Category / Series của blog
+
+export interface IBlogTaxonomy extends Document {
+  name_i18n: LocalizedString;
+  slug_i18n: {
+    vi: string;
+    en: string;
+  };
+  description_i18n?: LocalizedString;
+  coverImage?: BlogImage;
+  sortOrder: number;
+  isActive: boolean;
+  createdBy?: mongoose.Types.ObjectId | null;
+  updatedBy?: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TaxonomyImageSchema = new Schema<BlogImage>(
+  {
+    url: { type: String, trim: true, required: true },
+    publicId: { type: String, trim: true },
+    alt_i18n: { type: LocalizedStringSchema, default: undefined },
+  },
+  { _id: false }
+);
+
+export function createBlogTaxonomySchema() {
+  const schema = new Schema<IBlogTaxonomy>(
+    {
+      name_i18n: { type: LocalizedStringSchema, required: true },
+      slug_i18n: {
+        vi: { type: String, trim: true, lowercase: true, required: true },
+        en: { type: String, trim: true, lowercase: true, required: true },
+      },
+      description_i18n: { type: LocalizedStringSchema, default: undefined },
+      coverImage: { type: TaxonomyImageSchema, default: undefined },
+      sortOrder: { type: Number, default: 0 },
+      isActive: { type: Boolean, default: true },
+      createdBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+      updatedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    },
+    {
+      timestamps: true,
+    }
+  );
+
+  // Thiếu slug thì sinh từ tên theo từng locale
+  schema.pre("validate", function (next) {
+    const doc: any = this;
+    const name = doc.name_i18n || {};
+    doc.slug_i18n = doc.slug_i18n || {};
+    doc.slug_i18n.vi = normalizeSlug(doc.slug_i18n.vi || name.vi || name.en);
+    doc.slug_i18n.en = normalizeSlug(doc.slug_i18n.en || name.en || name.vi);
+    next();
+  });
+
+  schema.index({ "slug_i18n.vi": 1 }, { unique: true });
+  schema.index({ "slug_i18n.en": 1 }, { unique: true });
+  schema.index({ isActive: 1, sortOrder: 1 });
+
+  return schema;
+}
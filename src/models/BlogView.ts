@@ -0,0 +1,31 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+
+// Dấu vết lượt xem gần đây để bỏ lượt trùng của cùng visitor trong cửa sổ
+export interface IBlogView extends Document {
+  blog: mongoose.Types.ObjectId;
+  // sha256(ip + user agent + visitor id), không lưu IP thô
+  fingerprint: string;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+const BlogViewSchema = new Schema<IBlogView>(
+  {
+    blog: { type: Schema.Types.ObjectId, ref: "Blog", required: true },
+    fingerprint: { type: String, required: true },
+    expiresAt: { type: Date, required: true },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+BlogViewSchema.index({ blog: 1, fingerprint: 1 }, { unique: true });
+// TTL: MongoDB tự dọn bản ghi hết hạn (trễ tối đa ~60s, dedupe vẫn so expiresAt)
+BlogViewSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const BlogViewModel: Model<IBlogView> =
+  (mongoose.models.BlogView as Model<IBlogView>) ||
+  mongoose.model<IBlogView>("BlogView", BlogViewSchema);
+
+export default BlogViewModel;
@@ -0,0 +1,33 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+import type { Locale } from "../i18n/types";
+
+// Tổng lượt xem theo ngày / bài / locale / nguồn truy cập
+export interface IBlogViewDaily extends Document {
+  blog: mongoose.Types.ObjectId;
+  // YYYY-MM-DD theo ANALYTICS_TIMEZONE
+  day: string;
+  locale: Locale;
+  // Host của referrer (bỏ "www."), "direct" nếu không có
+  referrer: string;
+  views: number;
+}
+
+const BlogViewDailySchema = new Schema<IBlogViewDaily>({
+  blog: { type: Schema.Types.ObjectId, ref: "Blog", required: true },
+  day: { type: String, required: true },
+  locale: { type: String, enum: ["vi", "en"], required: true },
+  referrer: { type: String, required: true, maxlength: 255 },
+  views: { type: Number, default: 0, min: 0 },
+});
+
+BlogViewDailySchema.index(
+  { blog: 1, day: 1, locale: 1, referrer: 1 },
+  { unique: true }
+);
+BlogViewDailySchema.index({ day: 1 });
+
+const BlogViewDailyModel: Model<IBlogViewDaily> =
+  (mongoose.models.BlogViewDaily as Model<IBlogViewDaily>) ||
+  mongoose.model<IBlogViewDaily>("BlogViewDaily", BlogViewDailySchema);
+
+export default BlogViewDailyModel;
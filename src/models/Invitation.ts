@@ -0,0 +1,55 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+import type { Role } from "./User";
+
+export interface IInvitation extends Document {
+  user: mongoose.Types.ObjectId;
+  email: string;
+  role: Role;
+  tokenHash: string;
+  expiresAt: Date;
+  invitedBy?: mongoose.Types.ObjectId | null;
+  sentAt?: Date | null;
+  sendCount: number;
+  acceptedAt?: Date | null;
+  revokedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const InvitationSchema = new Schema<IInvitation>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    email: {
+      type: String,
+      required: true,
+      trim: true,
+      lowercase: true,
+      maxlength: 160,
+    },
+    role: {
+      type: String,
+      enum: ["super_admin", "editor"],
+      default: "editor",
+    },
+    tokenHash: { type: String, required: true },
+    expiresAt: { type: Date, required: true },
+    invitedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    sentAt: { type: Date, default: null },
+    sendCount: { type: Number, default: 0, min: 0 },
+    acceptedAt: { type: Date, default: null },
+    revokedAt: { type: Date, default: null },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+InvitationSchema.index({ tokenHash: 1 }, { unique: true });
+InvitationSchema.index({ email: 1, createdAt: -1 });
+InvitationSchema.index({ acceptedAt: 1, revokedAt: 1, createdAt: -1 });
+
+const InvitationModel: Model<IInvitation> =
+  (mongoose.models.Invitation as Model<IInvitation>) ||
+  mongoose.model<IInvitation>("Invitation", InvitationSchema);
+
+export default InvitationModel;
@@ -0,0 +1,57 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+
+export type LoginMethod = "password" | "google";
+export type LoginFailureReason =
+  | "invalid_credentials"
+  | "inactive"
+  | "locked"
+  | "rate_limited";
+
+export interface ILoginHistory extends Document {
+  user?: mongoose.Types.ObjectId | null;
+  email?: string;
+  method: LoginMethod;
+  success: boolean;
+  reason?: LoginFailureReason;
+  ip?: string;
+  userAgent?: string;
+  createdAt: Date;
+}
+
+const LoginHistorySchema = new Schema<ILoginHistory>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    email: { type: String, trim: true, lowercase: true, maxlength: 160 },
+    method: {
+      type: String,
+      enum: ["password", "google"],
+      default: "password",
+    },
+    success: { type: Boolean, required: true },
+    reason: {
+      type: String,
+      enum: ["invalid_credentials", "inactive", "locked", "rate_limited"],
+    },
+    ip: { type: String, trim: true },
+    userAgent: { type: String, trim: true, maxlength: 500 },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+LoginHistorySchema.index({ user: 1, createdAt: -1 });
+LoginHistorySchema.index({ email: 1, createdAt: -1 });
+LoginHistorySchema.index(
+  { createdAt: 1 },
+  {
+    expireAfterSeconds:
+      (Number(process.env.LOGIN_HISTORY_RETENTION_DAYS) || 180) * 24 * 60 * 60,
+  }
+);
+
+const LoginHistoryModel: Model<ILoginHistory> =
+  (mongoose.models.LoginHistory as Model<ILoginHistory>) ||
+  mongoose.model<ILoginHistory>("LoginHistory", LoginHistorySchema);
+
+export default LoginHistoryModel;
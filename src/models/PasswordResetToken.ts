@@ -0,0 +1,38 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+
+export interface IPasswordResetToken extends Document {
+  user: mongoose.Types.ObjectId;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date | null;
+  requestedIp?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PasswordResetTokenSchema = new Schema<IPasswordResetToken>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    tokenHash: { type: String, required: true },
+    expiresAt: { type: Date, required: true },
+    usedAt: { type: Date, default: null },
+    requestedIp: { type: String, trim: true },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+PasswordResetTokenSchema.index({ tokenHash: 1 }, { unique: true });
+PasswordResetTokenSchema.index({ user: 1, usedAt: 1 });
+// Mongo tự xoá token đã hết hạn
+PasswordResetTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const PasswordResetTokenModel: Model<IPasswordResetToken> =
+  (mongoose.models.PasswordResetToken as Model<IPasswordResetToken>) ||
+  mongoose.model<IPasswordResetToken>(
+    "PasswordResetToken",
+    PasswordResetTokenSchema
+  );
+
+export default PasswordResetTokenModel;
@@ -218,6 +218,7 @@ ProductSchema.index({
   signatureOrder: 1,
   createdAt: -1,
 });
+ProductSchema.index({ tags: 1 });
 
 ProductSchema.index({
   "name_i18n.vi": "text",
@@ -0,0 +1,30 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+
+export type SecuritySettingsKey = "security";
+
+export interface ISecuritySettings extends Document {
+  key: SecuritySettingsKey;
+  requireTwoFactorForSuperAdmins: boolean;
+  updatedBy?: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SecuritySettingsSchema = new Schema<ISecuritySettings>(
+  {
+    key: { type: String, enum: ["security"], default: "security" },
+    requireTwoFactorForSuperAdmins: { type: Boolean, default: false },
+    updatedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+SecuritySettingsSchema.index({ key: 1 }, { unique: true });
+
+const SecuritySettingsModel: Model<ISecuritySettings> =
+  (mongoose.models.SecuritySettings as Model<ISecuritySettings>) ||
+  mongoose.model<ISecuritySettings>("SecuritySettings", SecuritySettingsSchema);
+
+export default SecuritySettingsModel;
@@ -0,0 +1,51 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+
+/**
+ * Mỗi refresh token đã phát hành là một record. Các token sinh ra từ cùng
+ * một lần đăng nhập chung `familyId`; token cũ được đánh dấu `rotatedAt`.
+ */
+export interface ISession extends Document {
+  user: mongoose.Types.ObjectId;
+  familyId: string;
+  tokenHash: string;
+  device?: string;
+  userAgent?: string;
+  ip?: string;
+  expiresAt: Date;
+  lastUsedAt?: Date | null;
+  rotatedAt?: Date | null;
+  revokedAt?: Date | null;
+  revokedReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SessionSchema = new Schema<ISession>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    familyId: { type: String, required: true },
+    tokenHash: { type: String, required: true },
+    device: { type: String, trim: true, maxlength: 200 },
+    userAgent: { type: String, trim: true, maxlength: 500 },
+    ip: { type: String, trim: true },
+    expiresAt: { type: Date, required: true },
+    lastUsedAt: { type: Date, default: null },
+    rotatedAt: { type: Date, default: null },
+    revokedAt: { type: Date, default: null },
+    revokedReason: { type: String, trim: true },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+SessionSchema.index({ tokenHash: 1 }, { unique: true });
+SessionSchema.index({ familyId: 1 });
+SessionSchema.index({ user: 1, revokedAt: 1, rotatedAt: 1 });
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const SessionModel: Model<ISession> =
+  (mongoose.models.Session as Model<ISession>) ||
+  mongoose.model<ISession>("Session", SessionSchema);
+
+export default SessionModel;
@@ -0,0 +1,64 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+import type { Locale } from "../i18n/types";
+
+export type SlugRedirectEntityType =
+  "blog" | "product" | "blogCategory" | "blogSeries";
+export type SlugRedirectSource = "history" | "custom";
+
+export interface ISlugRedirect extends Document {
+  entityType: SlugRedirectEntityType;
+  // null: áp dụng cho mọi locale (slug chung, vd. product.slug)
+  locale: Locale | null;
+  fromSlug: string;
+  // Trỏ tới entity (không lưu slug đích) để redirect luôn ra slug hiện tại
+  entity: mongoose.Types.ObjectId;
+  source: SlugRedirectSource;
+  hits: number;
+  lastHitAt?: Date | null;
+  createdBy?: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SlugRedirectSchema = new Schema<ISlugRedirect>(
+  {
+    entityType: {
+      type: String,
+      enum: ["blog", "product", "blogCategory", "blogSeries"],
+      required: true,
+    },
+    locale: { type: String, enum: ["vi", "en", null], default: null },
+    fromSlug: {
+      type: String,
+      required: true,
+      trim: true,
+      lowercase: true,
+      maxlength: 200,
+    },
+    entity: { type: Schema.Types.ObjectId, required: true },
+    source: {
+      type: String,
+      enum: ["history", "custom"],
+      default: "history",
+    },
+    hits: { type: Number, default: 0, min: 0 },
+    lastHitAt: { type: Date, default: null },
+    createdBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+SlugRedirectSchema.index(
+  { entityType: 1, fromSlug: 1, locale: 1 },
+  { unique: true }
+);
+SlugRedirectSchema.index({ entityType: 1, entity: 1 });
+SlugRedirectSchema.index({ source: 1, createdAt: -1 });
+
+const SlugRedirectModel: Model<ISlugRedirect> =
+  (mongoose.models.SlugRedirect as Model<ISlugRedirect>) ||
+  mongoose.model<ISlugRedirect>("SlugRedirect", SlugRedirectSchema);
+
+export default SlugRedirectModel;
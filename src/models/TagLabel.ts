@@ -0,0 +1,31 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+import type { LocalizedString } from "../i18n/types";
+import { LocalizedStringSchema } from "./Common";
+
+// Nhãn hiển thị theo locale cho tag (tag lưu trên Blog / Product là chuỗi thô)
+export interface ITagLabel extends Document {
+  tag: string;
+  label_i18n: LocalizedString;
+  updatedBy?: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TagLabelSchema = new Schema<ITagLabel>(
+  {
+    tag: { type: String, required: true, trim: true, maxlength: 100 },
+    label_i18n: { type: LocalizedStringSchema, required: true },
+    updatedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+TagLabelSchema.index({ tag: 1 }, { unique: true });
+
+const TagLabelModel: Model<ITagLabel> =
+  (mongoose.models.TagLabel as Model<ITagLabel>) ||
+  mongoose.model<ITagLabel>("TagLabel", TagLabelSchema);
+
+export default TagLabelModel;
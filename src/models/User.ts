@@ -3,6 +3,15 @@ import mongoose, { Document, Schema, Model } from "mongoose";
 export type Role = "super_admin" | "editor";
 export type AuthProvider = "local" | "google";
 
+export interface UserTwoFactor {
+  enabled: boolean;
+  secret?: string | null; // sealed (utils/secretBox)
+  pendingSecret?: string | null; // sealed, chờ xác nhận bằng mã đầu tiên
+  recoveryCodeHashes: string[];
+  lastUsedStep?: number | null;
+  enabledAt?: Date | null;
+}
+
 export interface IUser extends Document {
   name?: string;
   email: string;
@@ -12,10 +21,27 @@ export interface IUser extends Document {
   role: Role;
   isActive: boolean;
   lastLoginAt?: Date;
+  failedLoginAttempts: number;
+  // Lần sai đầu tiên của cửa sổ đếm hiện tại
+  firstFailedLoginAt?: Date | null;
+  lockedUntil?: Date | null;
+  twoFactor?: UserTwoFactor;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const TwoFactorSchema = new Schema<UserTwoFactor>(
+  {
+    enabled: { type: Boolean, default: false },
+    secret: { type: String, default: null },
+    pendingSecret: { type: String, default: null },
+    recoveryCodeHashes: { type: [String], default: [] },
+    lastUsedStep: { type: Number, default: null },
+    enabledAt: { type: Date, default: null },
+  },
+  { _id: false }
+);
+
 const UserSchema = new Schema<IUser>(
   {
     name: { type: String, trim: true, maxlength: 100 },
@@ -57,6 +83,27 @@ const UserSchema = new Schema<IUser>(
     lastLoginAt: {
       type: Date,
     },
+
+    failedLoginAttempts: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+
+    firstFailedLoginAt: {
+      type: Date,
+      default: null,
+    },
+
+    lockedUntil: {
+      type: Date,
+      default: null,
+    },
+
+    twoFactor: {
+      type: TwoFactorSchema,
+      default: () => ({}),
+    },
   },
   {
     timestamps: true,
@@ -0,0 +1,85 @@
+// src/repositories/apiKey.repo.ts
+import ApiKey, { IApiKey } from "../models/ApiKey";
+import type { Permission } from "../config/permissions";
+import { generateToken, hashToken } from "../utils/token";
+
+const KEY_PREFIX = "dik";
+const LAST_USED_WRITE_INTERVAL_MS = 60 * 1000;
+
+export type ApiKeyCreateInput = {
+  name: string;
+  scopes: Permission[];
+  expiresAt?: Date | null;
+  createdBy: string;
+};
+
+export const apiKeyRepo = {
+  /**
+   * Trả về key thô (chỉ hiển thị một lần) cùng document đã lưu hash
+   */
+  async create(input: ApiKeyCreateInput) {
+    const prefix = generateToken(4);
+    const key = `${KEY_PREFIX}_${prefix}_${generateToken(24)}`;
+
+    const doc = await ApiKey.create({
+      ...input,
+      prefix,
+      keyHash: hashToken(key),
+    });
+
+    return { key, doc };
+  },
+
+  async list(includeRevoked = false) {
+    const filter: any = includeRevoked ? {} : { revokedAt: null };
+    return ApiKey.find(filter)
+      .select("-keyHash")
+      .sort({ createdAt: -1 })
+      .populate({ path: "createdBy", select: "email name" })
+      .lean();
+  },
+
+  async update(
+    id: string,
+    data: Partial<Pick<IApiKey, "name" | "scopes" | "expiresAt">>
+  ) {
+    return ApiKey.findOneAndUpdate({ _id: id, revokedAt: null }, data, {
+      new: true,
+    }).select("-keyHash");
+  },
+
+  async revoke(id: string) {
+    return ApiKey.findOneAndUpdate(
+      { _id: id, revokedAt: null },
+      { revokedAt: new Date() },
+      { new: true }
+    ).select("-keyHash");
+  },
+
+  // Key hợp lệ: đúng hash, chưa thu hồi, chưa hết hạn
+  async findActiveByKey(key: string, now = new Date()) {
+    return ApiKey.findOne({
+      keyHash: hashToken(key),
+      revokedAt: null,
+      $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }],
+    }).lean();
+  },
+
+  // Giảm số lần ghi: chỉ cập nhật lastUsedAt tối đa mỗi phút
+  async touch(id: string, ip?: string, now = new Date()) {
+    return ApiKey.updateOne(
+      {
+        _id: id,
+        $or: [
+          { lastUsedAt: null },
+          {
+            lastUsedAt: {
+              $lt: new Date(now.getTime() - LAST_USED_WRITE_INTERVAL_MS),
+            },
+          },
+        ],
+      },
+      { lastUsedAt: now, lastUsedIp: ip }
+    );
+  },
+};
@@ -0,0 +1,87 @@
+// src/repositories/audit.repo.ts
+import { FilterQuery } from "mongoose";
+import AuditLog, {
+  IAuditLog,
+  AuditAction,
+  AuditChange,
+  AuditEntityType,
+} from "../models/AuditLog";
+
+export type AuditEntry = {
+  actor: {
+    userId?: string | null;
+    email?: string;
+    role?: string;
+    apiKeyId?: string | null;
+  };
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId?: string;
+  changes?: AuditChange[];
+  meta?: Record<string, any>;
+  ip?: string;
+  userAgent?: string;
+};
+
+export type AuditListOpts = {
+  page?: number;
+  limit?: number;
+  actorId?: string;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  action?: AuditAction;
+  from?: Date;
+  to?: Date;
+};
+
+export const auditRepo = {
+  async record(entry: AuditEntry) {
+    const { actor, ...rest } = entry;
+    return AuditLog.create({
+      ...rest,
+      actor: {
+        user: actor.userId || null,
+        email: actor.email,
+        role: actor.role,
+        apiKey: actor.apiKeyId || null,
+      },
+    });
+  },
+
+  async list(opts: AuditListOpts = {}) {
+    const {
+      page = 1,
+      limit = 50,
+      actorId,
+      entityType,
+      entityId,
+      action,
+      from,
+      to,
+    } = opts;
+
+    const filter: FilterQuery<IAuditLog> = {};
+    if (actorId) filter["actor.user"] = actorId;
+    if (entityType) filter.entityType = entityType;
+    if (entityId) filter.entityId = entityId;
+    if (action) filter.action = action;
+    if (from || to) {
+      filter.createdAt = {};
+      if (from) filter.createdAt.$gte = from;
+      if (to) filter.createdAt.$lte = to;
+    }
+
+    const safeLimit = Math.min(Math.max(Number(limit) || 50, 1), 200);
+
+    const [items, total] = await Promise.all([
+      AuditLog.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * safeLimit)
+        .limit(safeLimit)
+        .lean(),
+      AuditLog.countDocuments(filter),
+    ]);
+
+    return { items, total, page, limit: safeLimit };
+  },
+};
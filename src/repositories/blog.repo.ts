@@ -1,7 +1,14 @@
 import type { FilterQuery, Model } from "mongoose";
 import type { Locale } from "../i18n/types";
-import { Blog, type IBlog, type BlogStatus } from "../models/Blog";
-import { extractRichDocSummary } from "../utils/blogContent";
+import {
+  Blog,
+  buildBlogSearchFields,
+  type IBlog,
+  type BlogStatus,
+} from "../models/Blog";
+import { extractRichDocSummary, normalizeSlug } from "../utils/blogContent";
+import { escapeRegex, foldDiacritics, searchTerms } from "../utils/searchText";
+import { slugRedirectRepo } from "./slugRedirect.repo";
 
 const BlogModel = Blog as unknown as Model<IBlog>;
 const WORDS_PER_MINUTE = 200;
@@ -16,11 +23,41 @@ export type BlogAdminListOpts = {
   withCount?: boolean;
 };
 
+export type BlogTrashListOpts = {
+  page?: number;
+  limit?: number;
+  q?: string;
+};
+
+export type BlogSlugConflict = {
+  field: "slug" | "slug_i18n.vi" | "slug_i18n.en";
+  value: string;
+  blogId: string;
+};
+
+export type BlogPublicSearchOpts = {
+  q: string;
+  locale: Locale;
+  page?: number;
+  limit?: number;
+  tag?: string;
+  from?: Date;
+  to?: Date;
+};
+
 export type BlogPublicListOpts = {
   page?: number;
   limit?: number;
   tag?: string;
-  sort?: "publishedAt" | "-publishedAt" | "sortOrder" | "-sortOrder";
+  category?: string;
+  series?: string;
+  sort?:
+    | "publishedAt"
+    | "-publishedAt"
+    | "sortOrder"
+    | "-sortOrder"
+    | "seriesOrder"
+    | "-seriesOrder";
 };
 
 const buildDerivedFields = (content_i18n: IBlog["content_i18n"]) => {
@@ -41,16 +78,175 @@ const buildDerivedFields = (content_i18n: IBlog["content_i18n"]) => {
 const hasOwn = (obj: any, key: string) =>
   Object.prototype.hasOwnProperty.call(obj, key);
 
-const normalizeStatusFields = (
+// Quy trình duyệt: draft -> in_review -> approved -> published/scheduled
+const ALLOWED_TRANSITIONS: Record<BlogStatus, BlogStatus[]> = {
+  draft: ["in_review"],
+  in_review: ["draft", "approved"],
+  approved: ["draft", "published", "scheduled"],
+  scheduled: ["draft", "approved", "published"],
+  published: ["draft", "archived"],
+  archived: ["draft", "approved"],
+};
+const INITIAL_STATUSES = new Set<BlogStatus>(["draft", "in_review"]);
+
+// Sửa các field này sau khi đã duyệt thì bài phải duyệt lại
+const REVIEWED_FIELDS = [
+  "slug_i18n",
+  "title_i18n",
+  "excerpt_i18n",
+  "content_i18n",
+  "coverImage",
+  "gallery",
+  "tags",
+  "seoTitle_i18n",
+  "seoDescription_i18n",
+  "canonicalUrl",
+  "ogImageUrl",
+] as const;
+
+type ReviewedField = (typeof REVIEWED_FIELDS)[number];
+
+const isReviewedField = (field: string): field is ReviewedField =>
+  (REVIEWED_FIELDS as readonly string[]).includes(field);
+
+// content_i18n gửi thiếu locale thì giữ locale đó của bản hiện tại
+const mergeContent = (incoming: any, current: any) => ({
+  vi: incoming?.vi ?? current?.vi,
+  en: incoming?.en ?? current?.en,
+});
+
+// JSON với key đã sắp xếp: so sánh không phụ thuộc thứ tự key
+const stableJson = (value: any) =>
+  JSON.stringify(value ?? null, (_key, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.keys(v)
+            .sort()
+            .map((k) => [k, v[k]])
+        )
+      : v
+  );
+
+/**
+ * Giá trị các field cần duyệt trong data sau khi ép kiểu qua schema (trim,
+ * lowercase, ...) và chuẩn hoá slug như lúc lưu thật
+ */
+const castReviewedValues = (data: Partial<IBlog>, currentContent: any) => {
+  const picked: Record<string, any> = {};
+  for (const field of REVIEWED_FIELDS) {
+    if (hasOwn(data, field) && field !== "content_i18n") {
+      picked[field] = (data as any)[field];
+    }
+  }
+  const cast: any = new BlogModel(picked).toObject();
+
+  const values: Partial<Record<ReviewedField, any>> = {};
+  for (const field of REVIEWED_FIELDS) {
+    if (!hasOwn(data, field)) continue;
+    values[field] =
+      field === "content_i18n"
+        ? mergeContent(data.content_i18n, currentContent)
+        : cast[field];
+  }
+  if (values.slug_i18n) {
+    values.slug_i18n = {
+      vi: values.slug_i18n.vi && normalizeSlug(values.slug_i18n.vi),
+      en: values.slug_i18n.en && normalizeSlug(values.slug_i18n.en),
+    };
+  }
+  return values;
+};
+
+const toPlainBlog = (blog: IBlog): any => (blog as any).toObject?.() ?? blog;
+
+const changesReviewedContent = (data: Partial<IBlog>, existing: IBlog) => {
+  const current = toPlainBlog(existing);
+  const values = castReviewedValues(data, current.content_i18n);
+  return (Object.keys(values) as ReviewedField[]).some(
+    (field) => stableJson(values[field]) !== stableJson(current[field])
+  );
+};
+
+/**
+ * Bài đang public: field cần duyệt được gom vào pendingChanges (giá trị trùng
+ * bản live thì bỏ khỏi danh sách chờ), phần còn lại của data áp dụng ngay
+ */
+const holdPendingChanges = (data: Partial<IBlog>, doc: IBlog) => {
+  const current = toPlainBlog(doc);
+  const pending: Record<string, any> = { ...(doc.pendingChanges || {}) };
+  const values = castReviewedValues(
+    data,
+    pending.content_i18n ?? current.content_i18n
+  );
+
+  const live: Record<string, any> = {};
+  for (const [field, value] of Object.entries(data)) {
+    if (!isReviewedField(field)) {
+      live[field] = value;
+    } else if (stableJson(values[field]) === stableJson(current[field])) {
+      delete pending[field];
+    } else {
+      pending[field] = field === "content_i18n" ? values[field] : value;
+    }
+  }
+
+  doc.pendingChanges = Object.keys(pending).length ? pending : null;
+  return live as Partial<IBlog>;
+};
+
+const invalidTransition = (from: BlogStatus | undefined, to: BlogStatus) => {
+  const error: any = new Error(
+    from
+      ? `Cannot change blog status from ${from} to ${to}`
+      : `New blogs cannot start as ${to}`
+  );
+  error.code = "BLOG_INVALID_STATUS_TRANSITION";
+  return error;
+};
+
+// Đã duyệt nhưng chưa public: sửa nội dung thì quay về draft để duyệt lại.
+// Bài published giữ bản live, thay đổi nằm trong pendingChanges chờ duyệt.
+const REVIEWED_STATUSES = new Set<BlogStatus>(["approved", "scheduled"]);
+
+// Trạng thái bài sẽ nhận sau khi áp data (chưa kiểm tra transition)
+const resolveIncomingStatus = (
   data: Partial<IBlog>,
   existing?: IBlog
-) => {
-  const now = new Date();
+): BlogStatus => {
   const incomingStatus =
     (data.status as BlogStatus | undefined) ||
     (data.scheduledAt ? "scheduled" : existing?.status) ||
     "draft";
 
+  if (
+    existing &&
+    REVIEWED_STATUSES.has(existing.status) &&
+    REVIEWED_STATUSES.has(incomingStatus) &&
+    changesReviewedContent(data, existing)
+  ) {
+    return "draft";
+  }
+  return incomingStatus;
+};
+
+const normalizeStatusFields = (
+  data: Partial<IBlog>,
+  existing?: IBlog
+) => {
+  const now = new Date();
+  const incomingStatus = resolveIncomingStatus(data, existing);
+
+  if (!existing && !INITIAL_STATUSES.has(incomingStatus)) {
+    throw invalidTransition(undefined, incomingStatus);
+  }
+  if (
+    existing &&
+    incomingStatus !== existing.status &&
+    !ALLOWED_TRANSITIONS[existing.status]?.includes(incomingStatus)
+  ) {
+    throw invalidTransition(existing.status, incomingStatus);
+  }
+
   const scheduledAt = hasOwn(data, "scheduledAt")
     ? (data.scheduledAt as Date | null | undefined)
     : existing?.scheduledAt ?? null;
@@ -79,7 +275,11 @@ const normalizeStatusFields = (
     };
   }
 
-  if (incomingStatus === "draft") {
+  if (
+    incomingStatus === "draft" ||
+    incomingStatus === "in_review" ||
+    incomingStatus === "approved"
+  ) {
     return {
       status: incomingStatus,
       scheduledAt: null,
@@ -94,6 +294,10 @@ const normalizeStatusFields = (
   };
 };
 
+// Field cần cho thẻ bài liên quan (không lấy nội dung)
+const RELATED_SELECT =
+  "slug slug_i18n title_i18n excerpt_i18n coverImage tags category publishedAt readingTimeMinutes stats";
+
 const buildSort = (
   sort: string | undefined,
   fallback: Record<string, 1 | -1>
@@ -105,6 +309,11 @@ const buildSort = (
 };
 
 export const blogRepo = {
+  // Trạng thái bài sẽ có nếu update với data (để controller kiểm tra quyền)
+  nextStatus(data: Partial<IBlog>, existing: IBlog) {
+    return resolveIncomingStatus(data, existing);
+  },
+
   async create(data: Partial<IBlog>) {
     const derived = buildDerivedFields(data.content_i18n as any);
     const normalized = normalizeStatusFields(data);
@@ -118,16 +327,34 @@ export const blogRepo = {
     return doc.save();
   },
 
-  async update(id: string, data: Partial<IBlog>) {
-    const doc = await BlogModel.findOne({ _id: id, deletedAt: null });
+  /**
+   * applyPending: áp pendingChanges vào bản live (khi duyệt). Bài published
+   * vẫn public thì sửa nội dung chỉ vào pendingChanges; rời published (gỡ /
+   * lưu trữ) thì thay đổi đang chờ được gộp vào bài.
+   */
+  async update(
+    id: string,
+    data: Partial<IBlog>,
+    opts: { applyPending?: boolean } = {}
+  ) {
+    const doc = await BlogModel.findOne({ _id: id, deletedAt: null }).select(
+      "+pendingChanges"
+    );
     if (!doc) return null;
 
+    const staysPublished =
+      doc.status === "published" &&
+      resolveIncomingStatus(data, doc) === "published";
+    if (doc.pendingChanges && (opts.applyPending || !staysPublished)) {
+      data = { ...doc.pendingChanges, ...data };
+      doc.pendingChanges = null;
+    } else if (staysPublished) {
+      data = holdPendingChanges(data, doc);
+    }
+
     let nextContent = doc.content_i18n;
     if (data.content_i18n) {
-      nextContent = {
-        vi: (data.content_i18n as any)?.vi ?? doc.content_i18n?.vi,
-        en: (data.content_i18n as any)?.en ?? doc.content_i18n?.en,
-      };
+      nextContent = mergeContent(data.content_i18n, doc.content_i18n) as any;
     }
 
     const derived = data.content_i18n
@@ -135,6 +362,11 @@ export const blogRepo = {
       : null;
 
     const normalized = normalizeStatusFields(data, doc);
+    const previousSlugs = {
+      slug: doc.slug,
+      vi: doc.slug_i18n?.vi,
+      en: doc.slug_i18n?.en,
+    };
 
     Object.assign(doc, data, normalized);
     if (data.content_i18n) {
@@ -146,7 +378,13 @@ export const blogRepo = {
       doc.readingTimeMinutes = derived.readingTimeMinutes;
     }
 
-    return doc.save();
+    const saved = await doc.save();
+    await slugRedirectRepo.recordRenames("blog", String(saved._id), [
+      { locale: null, from: previousSlugs.slug, to: saved.slug },
+      { locale: "vi", from: previousSlugs.vi, to: saved.slug_i18n?.vi },
+      { locale: "en", from: previousSlugs.en, to: saved.slug_i18n?.en },
+    ]);
+    return saved;
   },
 
   async softDelete(id: string, updatedBy?: string) {
@@ -158,7 +396,172 @@ export const blogRepo = {
   },
 
   async getById(id: string) {
-    return BlogModel.findOne({ _id: id, deletedAt: null });
+    return BlogModel.findOne({ _id: id, deletedAt: null }).select(
+      "+pendingChanges"
+    );
+  },
+
+  async getDeletedById(id: string) {
+    return BlogModel.findOne({ _id: id, deletedAt: { $ne: null } });
+  },
+
+  async listTrash(opts: BlogTrashListOpts = {}) {
+    const { page = 1, limit = 20, q } = opts;
+
+    const filter: FilterQuery<IBlog> = { deletedAt: { $ne: null } };
+    if (q?.trim()) filter.$text = { $search: foldDiacritics(q.trim()) };
+
+    const safeLimit = Math.min(Math.max(Number(limit) || 20, 1), 50);
+    const skip = (page - 1) * safeLimit;
+
+    const [items, total] = await Promise.all([
+      BlogModel.find(filter)
+        .select("-content_i18n -toc_i18n -plainText_i18n")
+        .populate("updatedBy", "email name")
+        .sort({ deletedAt: -1 })
+        .skip(skip)
+        .limit(safeLimit)
+        .lean(),
+      BlogModel.countDocuments(filter),
+    ]);
+
+    return { items, total, page, limit: safeLimit };
+  },
+
+  // Slug của bài (trong thùng rác) đang bị bài chưa xoá khác sử dụng
+  async findSlugConflicts(blog: IBlog): Promise<BlogSlugConflict[]> {
+    const candidates: { field: BlogSlugConflict["field"]; value?: string }[] = [
+      { field: "slug", value: blog.slug },
+      { field: "slug_i18n.vi", value: blog.slug_i18n?.vi },
+      { field: "slug_i18n.en", value: blog.slug_i18n?.en },
+    ];
+    const checks = candidates.filter((c) => !!c.value);
+    if (!checks.length) return [];
+
+    const others = await BlogModel.find({
+      _id: { $ne: blog._id },
+      deletedAt: null,
+      $or: checks.map((c) => ({ [c.field]: c.value })),
+    })
+      .select("slug slug_i18n")
+      .lean();
+
+    const conflicts: BlogSlugConflict[] = [];
+    for (const other of others) {
+      for (const check of checks) {
+        const value =
+          check.field === "slug"
+            ? other.slug
+            : check.field === "slug_i18n.vi"
+            ? other.slug_i18n?.vi
+            : other.slug_i18n?.en;
+        if (value === check.value) {
+          conflicts.push({
+            field: check.field,
+            value: check.value!,
+            blogId: String(other._id),
+          });
+        }
+      }
+    }
+    return conflicts;
+  },
+
+  async restore(id: string, updatedBy?: string) {
+    return BlogModel.findOneAndUpdate(
+      { _id: id, deletedAt: { $ne: null } },
+      { deletedAt: null, updatedBy: updatedBy || null },
+      { new: true }
+    );
+  },
+
+  // Chỉ xoá hẳn bài đã nằm trong thùng rác
+  async hardDelete(id: string) {
+    return BlogModel.findOneAndDelete({ _id: id, deletedAt: { $ne: null } });
+  },
+
+  // Gỡ bài khỏi danh sách bài liên quan được ghim ở các bài khác
+  async removeRelatedReferences(id: string) {
+    return BlogModel.updateMany(
+      { relatedPosts: id },
+      { $pull: { relatedPosts: id } },
+      { timestamps: false }
+    );
+  },
+
+  async listDeletedBefore(before: Date, limit = 100) {
+    return BlogModel.find({ deletedAt: { $ne: null, $lte: before } })
+      .select("coverImage gallery deletedAt")
+      .sort({ deletedAt: 1 })
+      .limit(limit)
+      .lean();
+  },
+
+  /**
+   * publicId còn được bài khác (kể cả bài trong thùng rác) tham chiếu: qua
+   * coverImage / gallery (query theo publicId), còn lại mới quét URL ảnh trong
+   * nội dung, ogImageUrl và thay đổi chờ duyệt. Gọi một lần cho cả lô bài.
+   */
+  async findReferencedPublicIds(publicIds: string[], excludeId?: string) {
+    const referenced = new Set<string>();
+    if (!publicIds.length) return referenced;
+
+    const base: FilterQuery<IBlog> = {};
+    if (excludeId) base._id = { $ne: excludeId };
+
+    const structured = await BlogModel.find({
+      ...base,
+      $or: [
+        { "coverImage.publicId": { $in: publicIds } },
+        { "gallery.publicId": { $in: publicIds } },
+      ],
+    })
+      .select("coverImage.publicId gallery.publicId")
+      .lean();
+    const wanted = new Set(publicIds);
+    for (const doc of structured) {
+      const ids = [
+        doc.coverImage?.publicId,
+        ...(doc.gallery || []).map((g) => g.publicId),
+      ];
+      for (const id of ids) {
+        if (id && wanted.has(id)) referenced.add(id);
+      }
+    }
+
+    const remaining = publicIds.filter((id) => !referenced.has(id));
+    if (!remaining.length) return referenced;
+
+    const cursor = BlogModel.find(base)
+      .select("content_i18n ogImageUrl pendingChanges")
+      .lean()
+      .cursor();
+    for await (const doc of cursor) {
+      const text = JSON.stringify(doc);
+      for (const id of remaining) {
+        if (text.includes(id)) referenced.add(id);
+      }
+      if (referenced.size === publicIds.length) break;
+    }
+    return referenced;
+  },
+
+  // Slug đang thuộc về một bài chưa xoá (ở bất kỳ locale nào)
+  async isSlugInUse(slug: string) {
+    const existed = await BlogModel.exists({
+      deletedAt: null,
+      $or: [{ slug }, { "slug_i18n.vi": slug }, { "slug_i18n.en": slug }],
+    });
+    return !!existed;
+  },
+
+  async getPublicById(id: string, now = new Date()) {
+    return BlogModel.findOne({
+      _id: id,
+      status: "published",
+      deletedAt: null,
+      publishedAt: { $lte: now },
+    });
   },
 
   async getPublicBySlug(slug: string, locale: Locale, now = new Date()) {
@@ -186,7 +589,7 @@ export const blogRepo = {
     const filter: FilterQuery<IBlog> = { deletedAt: null };
     if (status) filter.status = status;
     if (tag) filter.tags = tag;
-    if (q?.trim()) filter.$text = { $search: q.trim() };
+    if (q?.trim()) filter.$text = { $search: foldDiacritics(q.trim()) };
 
     const safeLimit = Math.min(Math.max(Number(limit) || 20, 1), 50);
     const skip = (page - 1) * safeLimit;
@@ -212,7 +615,7 @@ export const blogRepo = {
   },
 
   async listPublic(opts: BlogPublicListOpts = {}) {
-    const { page = 1, limit = 20, tag, sort } = opts;
+    const { page = 1, limit = 20, tag, category, series, sort } = opts;
     const now = new Date();
 
     const filter: FilterQuery<IBlog> = {
@@ -222,11 +625,15 @@ export const blogRepo = {
     };
 
     if (tag) filter.tags = tag;
+    if (category) filter.category = category;
+    if (series) filter.series = series;
 
     const safeLimit = Math.min(Math.max(Number(limit) || 20, 1), 50);
     const skip = (page - 1) * safeLimit;
 
     const sortObj = buildSort(sort, { publishedAt: -1 });
+    // Cùng seriesOrder thì xếp theo thứ tự xuất bản
+    if (sortObj.seriesOrder) sortObj.publishedAt = sortObj.seriesOrder;
 
     const [items, total] = await Promise.all([
       BlogModel.find(filter)
@@ -241,6 +648,172 @@ export const blogRepo = {
     return { items, total, page, limit: safeLimit };
   },
 
+  /**
+   * Bài public liền trước / liền sau trong cùng series
+   * (theo seriesOrder, cùng thứ tự thì theo publishedAt)
+   */
+  async getSeriesNeighbors(blog: IBlog, now = new Date()) {
+    if (!blog.series) return { prev: null, next: null };
+
+    const base: FilterQuery<IBlog> = {
+      _id: { $ne: blog._id },
+      series: blog.series,
+      status: "published",
+      deletedAt: null,
+      publishedAt: { $lte: now },
+    };
+    const order = blog.seriesOrder ?? 0;
+    const select = "slug slug_i18n title_i18n seriesOrder publishedAt";
+
+    const [prev, next] = await Promise.all([
+      BlogModel.findOne({
+        ...base,
+        $or: [
+          { seriesOrder: { $lt: order } },
+          { seriesOrder: order, publishedAt: { $lt: blog.publishedAt } },
+        ],
+      })
+        .select(select)
+        .sort({ seriesOrder: -1, publishedAt: -1 })
+        .lean(),
+      BlogModel.findOne({
+        ...base,
+        $or: [
+          { seriesOrder: { $gt: order } },
+          { seriesOrder: order, publishedAt: { $gt: blog.publishedAt } },
+        ],
+      })
+        .select(select)
+        .sort({ seriesOrder: 1, publishedAt: 1 })
+        .lean(),
+    ]);
+
+    return { prev, next };
+  },
+
+  /**
+   * Tìm bài public theo $text trên bản bỏ dấu, xếp theo textScore rồi publishedAt.
+   * Lọc thêm theo tag và khoảng publishedAt [from, to].
+   */
+  async searchPublic(opts: BlogPublicSearchOpts) {
+    const { q, locale, page = 1, limit = 10, tag, from, to } = opts;
+    const now = new Date();
+
+    const publishedAt: Record<string, Date> = { $lte: now };
+    if (from) publishedAt.$gte = from;
+    if (to && to < now) publishedAt.$lte = to;
+
+    const filter: FilterQuery<IBlog> = {
+      status: "published",
+      deletedAt: null,
+      publishedAt,
+      $text: { $search: foldDiacritics(q.trim()) },
+    };
+    if (tag) filter.tags = tag;
+
+    // $text khớp mọi locale: chỉ giữ bài có từ khoá trong bản của locale đang xem
+    const terms = searchTerms(q);
+    if (terms.length) {
+      const word = new RegExp(
+        `(^|[^a-z0-9])(${terms.map(escapeRegex).join("|")})($|[^a-z0-9])`
+      );
+      filter.$or = [
+        { [`search.${locale}.title`]: word },
+        { [`search.${locale}.body`]: word },
+        { tags: word },
+      ];
+    }
+
+    const safeLimit = Math.min(Math.max(Number(limit) || 10, 1), 50);
+    const skip = (page - 1) * safeLimit;
+
+    const [items, total] = await Promise.all([
+      BlogModel.find(filter, { score: { $meta: "textScore" } })
+        .select("-content_i18n -toc_i18n")
+        .sort({ score: { $meta: "textScore" }, publishedAt: -1 })
+        .skip(skip)
+        .limit(safeLimit)
+        .lean(),
+      BlogModel.countDocuments(filter),
+    ]);
+
+    return { items, total, page, limit: safeLimit };
+  },
+
+  // Số bài chưa xoá trong danh sách id (kiểm tra bài liên quan được ghim)
+  async countActiveByIds(ids: string[]) {
+    return BlogModel.countDocuments({ _id: { $in: ids }, deletedAt: null });
+  },
+
+  /**
+   * Ứng viên cho bài liên quan: bài cùng tag / category trước, thêm bài mới
+   * nhất để bài ít tag vẫn có gợi ý. Kèm plainText của locale để so văn bản.
+   */
+  async listRelatedCandidates(blog: IBlog, locale: Locale, now = new Date()) {
+    const base: FilterQuery<IBlog> = {
+      _id: { $ne: blog._id },
+      status: "published",
+      deletedAt: null,
+      publishedAt: { $lte: now },
+    };
+    const select = `${RELATED_SELECT} plainText_i18n.${locale}`;
+
+    const similar: FilterQuery<IBlog>[] = [];
+    if (blog.tags?.length) similar.push({ tags: { $in: blog.tags } });
+    if (blog.category) similar.push({ category: blog.category });
+
+    const [matched, recent] = await Promise.all([
+      similar.length
+        ? BlogModel.find({ ...base, $or: similar })
+            .select(select)
+            .sort({ publishedAt: -1 })
+            .limit(150)
+            .lean()
+        : Promise.resolve([]),
+      BlogModel.find(base)
+        .select(select)
+        .sort({ publishedAt: -1 })
+        .limit(50)
+        .lean(),
+    ]);
+
+    const seen = new Set<string>();
+    return [...matched, ...recent].filter((doc) => {
+      const id = String(doc._id);
+      if (seen.has(id)) return false;
+      seen.add(id);
+      return true;
+    });
+  },
+
+  // Bài public theo danh sách id, giữ đúng thứ tự truyền vào
+  async listPublicByIds(ids: string[], now = new Date()) {
+    if (!ids.length) return [];
+    const docs = await BlogModel.find({
+      _id: { $in: ids },
+      status: "published",
+      deletedAt: null,
+      publishedAt: { $lte: now },
+    })
+      .select(RELATED_SELECT)
+      .lean();
+    const byId = new Map(docs.map((doc) => [String(doc._id), doc]));
+    return ids.flatMap((id) => byId.get(String(id)) || []);
+  },
+
+  // Bài public được phép index (robots.index khác false)
+  async listForSitemap(now = new Date()) {
+    return BlogModel.find({
+      status: "published",
+      deletedAt: null,
+      publishedAt: { $lte: now },
+      "robots.index": { $ne: false },
+    })
+      .select("slug slug_i18n canonicalUrl publishedAt updatedAt")
+      .sort({ publishedAt: -1 })
+      .lean();
+  },
+
   async incrementViewCount(id: string) {
     return BlogModel.findOneAndUpdate(
       {
@@ -250,10 +823,40 @@ export const blogRepo = {
         publishedAt: { $lte: new Date() },
       },
       { $inc: { "stats.viewCount": 1 } },
-      { new: true }
+      // Lượt xem không phải chỉnh sửa: giữ nguyên updatedAt
+      { new: true, timestamps: false }
     );
   },
 
+  /**
+   * Tính lại toc_i18n / plainText_i18n / readingTimeMinutes / search cho mọi bài
+   * (kể cả bài đã xoá mềm), không đổi updatedAt
+   */
+  async rebuildDerivedFields() {
+    let scanned = 0;
+    let updated = 0;
+
+    const cursor = BlogModel.find(
+      {},
+      { content_i18n: 1, title_i18n: 1, excerpt_i18n: 1 }
+    )
+      .lean()
+      .cursor();
+    for await (const doc of cursor) {
+      scanned++;
+      const derived = buildDerivedFields((doc as any).content_i18n);
+      const search = buildBlogSearchFields({ ...doc, ...derived } as any);
+      const result = await BlogModel.updateOne(
+        { _id: doc._id },
+        { $set: { ...derived, search } },
+        { timestamps: false }
+      );
+      updated += result.modifiedCount;
+    }
+
+    return { scanned, updated };
+  },
+
   async publishScheduled(now = new Date()) {
     return BlogModel.updateMany(
       {
@@ -0,0 +1,172 @@
+// src/repositories/blogRevision.repo.ts
+import BlogRevision, { BlogRevisionAction } from "../models/BlogRevision";
+import type { IBlog } from "../models/Blog";
+
+// Field biên tập được, khôi phục được từ revision
+export const BLOG_RESTORABLE_FIELDS = [
+  "slug_i18n",
+  "title_i18n",
+  "excerpt_i18n",
+  "content_i18n",
+  "coverImage",
+  "gallery",
+  "tags",
+  "category",
+  "series",
+  "seriesOrder",
+  "relatedPosts",
+  "isFeatured",
+  "sortOrder",
+  "seoTitle_i18n",
+  "seoDescription_i18n",
+  "canonicalUrl",
+  "ogImageUrl",
+  "robots",
+  "authorName",
+] as const;
+
+// Chỉ để xem/diff, không khôi phục (trạng thái xuất bản, text dẫn xuất)
+const SNAPSHOT_INFO_FIELDS = [
+  "status",
+  "publishedAt",
+  "scheduledAt",
+  "plainText_i18n",
+] as const;
+
+const REVISION_LIMIT = Math.max(
+  Number(process.env.BLOG_REVISION_LIMIT) || 100,
+  1
+);
+const MAX_VERSION_RETRIES = 3;
+
+export type BlogRevisionAuthor = {
+  userId?: string | null;
+  email?: string;
+  apiKeyId?: string | null;
+};
+
+export function snapshotBlog(blog: IBlog): Record<string, any> {
+  const obj: any = (blog as any).toObject?.() ?? blog;
+  const snapshot: Record<string, any> = {};
+  for (const field of [...BLOG_RESTORABLE_FIELDS, ...SNAPSHOT_INFO_FIELDS]) {
+    if (obj[field] !== undefined) snapshot[field] = obj[field];
+  }
+  // ObjectId/Date -> JSON để so sánh ổn định
+  return JSON.parse(JSON.stringify(snapshot));
+}
+
+export const blogRevisionRepo = {
+  /**
+   * Lưu snapshot mới cho bài; bỏ qua nếu không khác bản gần nhất.
+   * Giữ tối đa BLOG_REVISION_LIMIT bản, bản cũ hơn bị xoá.
+   */
+  async record(
+    blog: IBlog,
+    action: BlogRevisionAction,
+    author: BlogRevisionAuthor,
+    restoredFrom?: number
+  ) {
+    const snapshot = snapshotBlog(blog);
+
+    for (let attempt = 0; attempt < MAX_VERSION_RETRIES; attempt++) {
+      const latest = await BlogRevision.findOne({ blog: blog._id })
+        .sort({ version: -1 })
+        .lean();
+
+      if (
+        latest &&
+        action !== "restore" &&
+        JSON.stringify(latest.snapshot) === JSON.stringify(snapshot)
+      ) {
+        return null;
+      }
+
+      const version = (latest?.version || 0) + 1;
+      try {
+        const doc = await BlogRevision.create({
+          blog: blog._id,
+          version,
+          action,
+          snapshot,
+          author: {
+            user: author.userId || null,
+            email: author.email,
+            apiKey: author.apiKeyId || null,
+          },
+          restoredFrom: restoredFrom ?? null,
+        });
+
+        if (version > REVISION_LIMIT) {
+          await BlogRevision.deleteMany({
+            blog: blog._id,
+            version: { $lte: version - REVISION_LIMIT },
+          });
+        }
+
+        return doc;
+      } catch (err: any) {
+        // Hai request lưu cùng lúc lấy trùng version: thử lại
+        if (err?.code !== 11000) throw err;
+      }
+    }
+
+    throw new Error("Could not allocate a revision version");
+  },
+
+  /**
+   * Bài chưa có revision nào (tạo trước khi có lịch sử): lưu trạng thái hiện
+   * tại làm bản gốc trước khi sửa để vẫn xem diff / khôi phục được.
+   */
+  async recordBaseline(blog: IBlog) {
+    if (await BlogRevision.exists({ blog: blog._id })) return null;
+
+    try {
+      return await BlogRevision.create({
+        blog: blog._id,
+        version: 1,
+        action: "baseline",
+        snapshot: snapshotBlog(blog),
+        author: { user: blog.updatedBy || blog.createdBy || null },
+      });
+    } catch (err: any) {
+      // Request khác vừa lưu revision đầu tiên
+      if (err?.code === 11000) return null;
+      throw err;
+    }
+  },
+
+  async list(blogId: string, opts: { page?: number; limit?: number } = {}) {
+    const { page = 1, limit = 20 } = opts;
+    const safeLimit = Math.min(Math.max(Number(limit) || 20, 1), 100);
+    const filter = { blog: blogId };
+
+    const [items, total] = await Promise.all([
+      BlogRevision.find(filter)
+        .select(
+          "version action author restoredFrom createdAt snapshot.title_i18n snapshot.status"
+        )
+        .populate("author.user", "email name")
+        .sort({ version: -1 })
+        .skip((page - 1) * safeLimit)
+        .limit(safeLimit)
+        .lean(),
+      BlogRevision.countDocuments(filter),
+    ]);
+
+    return { items, total, page, limit: safeLimit };
+  },
+
+  async getByVersion(blogId: string, version: number) {
+    return BlogRevision.findOne({ blog: blogId, version })
+      .populate("author.user", "email name")
+      .lean();
+  },
+
+  async getLatest(blogId: string) {
+    return BlogRevision.findOne({ blog: blogId }).sort({ version: -1 }).lean();
+  },
+
+  async deleteForBlog(blogId: string) {
+    return BlogRevision.deleteMany({ blog: blogId });
+  },
+};
@@ -0,0 +1,116 @@
+import { Types, type Model } from "mongoose";
+import BlogCategory from "../models/BlogCategory";
+import BlogSeries from "../models/BlogSeries";
+import type { IBlogTaxonomy } from "../models/BlogTaxonomy";
+import { Blog, type IBlog } from "../models/Blog";
+import type { Locale } from "../i18n/types";
+import type { SlugRedirectEntityType } from "../models/SlugRedirect";
+import { slugRedirectRepo } from "./slugRedirect.repo";
+
+const BlogModel = Blog as unknown as Model<IBlog>;
+
+export type BlogTaxonomyField = "category" | "series";
+
+// Category và Series dùng chung thao tác, chỉ khác model + field trên Blog
+function createBlogTaxonomyRepo(
+  TaxonomyModel: Model<IBlogTaxonomy>,
+  field: BlogTaxonomyField
+) {
+  const entityType: SlugRedirectEntityType =
+    field === "category" ? "blogCategory" : "blogSeries";
+
+  return {
+    async list(includeInactive = false) {
+      const filter = includeInactive ? {} : { isActive: true };
+      return TaxonomyModel.find(filter)
+        .sort({ sortOrder: 1, createdAt: 1 })
+        .lean();
+    },
+
+    async getById(id: string) {
+      return TaxonomyModel.findById(id);
+    },
+
+    async getActiveBySlug(slug: string, locale: Locale) {
+      return TaxonomyModel.findOne({
+        isActive: true,
+        [`slug_i18n.${locale}`]: slug.toLowerCase(),
+      }).lean();
+    },
+
+    async getActiveById(id: string) {
+      return TaxonomyModel.findOne({ _id: id, isActive: true }).lean();
+    },
+
+    async isSlugInUse(slug: string) {
+      return !!(await TaxonomyModel.exists({
+        $or: [{ "slug_i18n.vi": slug }, { "slug_i18n.en": slug }],
+      }));
+    },
+
+    async exists(id: string) {
+      if (!Types.ObjectId.isValid(id)) return false;
+      return !!(await TaxonomyModel.exists({ _id: id }));
+    },
+
+    async create(data: Partial<IBlogTaxonomy>) {
+      return TaxonomyModel.create(data);
+    },
+
+    async update(id: string, data: Partial<IBlogTaxonomy>) {
+      const doc = await TaxonomyModel.findById(id);
+      if (!doc) return null;
+
+      const previousSlugs = { vi: doc.slug_i18n?.vi, en: doc.slug_i18n?.en };
+      Object.assign(doc, data);
+      const saved = await doc.save();
+
+      await slugRedirectRepo.recordRenames(entityType, String(saved._id), [
+        { locale: "vi", from: previousSlugs.vi, to: saved.slug_i18n?.vi },
+        { locale: "en", from: previousSlugs.en, to: saved.slug_i18n?.en },
+      ]);
+      return saved;
+    },
+
+    // Gỡ tham chiếu trên các bài trước khi xoá (bài vẫn giữ nguyên)
+    async delete(id: string) {
+      const deleted = await TaxonomyModel.findByIdAndDelete(id);
+      if (!deleted) return null;
+
+      const unset: Record<string, any> = { [field]: null };
+      if (field === "series") unset.seriesOrder = 0;
+      const { modifiedCount } = await BlogModel.updateMany(
+        { [field]: deleted._id },
+        { $set: unset },
+        { timestamps: false }
+      );
+      await slugRedirectRepo.deleteForEntity(entityType, String(deleted._id));
+      return { deleted, detachedPosts: modifiedCount };
+    },
+
+    // Số bài public theo từng category / series
+    async countPublishedPosts(now = new Date()) {
+      const rows = await BlogModel.aggregate<{
+        _id: Types.ObjectId;
+        count: number;
+      }>([
+        {
+          $match: {
+            status: "published",
+            deletedAt: null,
+            publishedAt: { $lte: now },
+            [field]: { $ne: null },
+          },
+        },
+        { $group: { _id: `$${field}`, count: { $sum: 1 } } },
+      ]);
+      return new Map(rows.map((r) => [String(r._id), r.count]));
+    },
+  };
+}
+
+export const blogCategoryRepo = createBlogTaxonomyRepo(
+  BlogCategory,
+  "category"
+);
+export const blogSeriesRepo = createBlogTaxonomyRepo(BlogSeries, "series");
@@ -0,0 +1,110 @@
+import { Types, type FilterQuery, type Model } from "mongoose";
+import BlogView from "../models/BlogView";
+import BlogViewDaily, { type IBlogViewDaily } from "../models/BlogViewDaily";
+import { Blog, type IBlog } from "../models/Blog";
+import type { Locale } from "../i18n/types";
+
+const BlogModel = Blog as unknown as Model<IBlog>;
+
+export type BlogViewDailyInput = {
+  blog: string;
+  day: string;
+  locale: Locale;
+  referrer: string;
+};
+
+export type BlogAnalyticsFilter = {
+  // YYYY-MM-DD, tính cả hai đầu
+  from: string;
+  to: string;
+  blog?: string;
+  locale?: Locale;
+};
+
+const buildMatch = (filter: BlogAnalyticsFilter) => {
+  const match: FilterQuery<IBlogViewDaily> = {
+    day: { $gte: filter.from, $lte: filter.to },
+  };
+  if (filter.blog) match.blog = new Types.ObjectId(filter.blog);
+  if (filter.locale) match.locale = filter.locale;
+  return match;
+};
+
+export const blogViewRepo = {
+  /**
+   * Đánh dấu visitor đã xem bài trong windowMs. Trả về false nếu vẫn còn
+   * trong cửa sổ của lần xem trước (bản ghi chưa hết hạn gây trùng key).
+   */
+  async markSeen(
+    blog: string,
+    fingerprint: string,
+    windowMs: number,
+    now = new Date()
+  ) {
+    try {
+      await BlogView.findOneAndUpdate(
+        { blog, fingerprint, expiresAt: { $lte: now } },
+        { $set: { expiresAt: new Date(now.getTime() + windowMs) } },
+        { upsert: true }
+      );
+      return true;
+    } catch (err: any) {
+      if (err?.code === 11000) return false;
+      throw err;
+    }
+  },
+
+  async recordDaily(input: BlogViewDailyInput) {
+    return BlogViewDaily.updateOne(
+      input,
+      { $inc: { views: 1 } },
+      { upsert: true }
+    );
+  },
+
+  async timeSeries(filter: BlogAnalyticsFilter) {
+    return BlogViewDaily.aggregate<{ _id: string; views: number }>([
+      { $match: buildMatch(filter) },
+      { $group: { _id: "$day", views: { $sum: "$views" } } },
+      { $sort: { _id: 1 } },
+    ]);
+  },
+
+  // Bài nhiều lượt xem nhất trong khoảng, kèm tiêu đề / slug hiện tại
+  async topBlogs(filter: BlogAnalyticsFilter, limit = 10) {
+    const rows = await BlogViewDaily.aggregate<{
+      _id: Types.ObjectId;
+      views: number;
+    }>([
+      { $match: buildMatch(filter) },
+      { $group: { _id: "$blog", views: { $sum: "$views" } } },
+      { $sort: { views: -1, _id: 1 } },
+      { $limit: limit },
+    ]);
+
+    const blogs = await BlogModel.find({ _id: { $in: rows.map((r) => r._id) } })
+      .select("slug slug_i18n title_i18n status deletedAt")
+      .lean();
+    const byId = new Map(blogs.map((b) => [String(b._id), b]));
+
+    return rows.map((row) => ({
+      blog: byId.get(String(row._id)) || null,
+      blogId: String(row._id),
+      views: row.views,
+    }));
+  },
+
+  async referrers(filter: BlogAnalyticsFilter, limit = 20) {
+    return BlogViewDaily.aggregate<{ _id: string; views: number }>([
+      { $match: buildMatch(filter) },
+      { $group: { _id: "$referrer", views: { $sum: "$views" } } },
+      { $sort: { views: -1, _id: 1 } },
+      { $limit: limit },
+    ]);
+  },
+
+  async deleteForBlog(blog: string) {
+    await BlogView.deleteMany({ blog });
+    return BlogViewDaily.deleteMany({ blog });
+  },
+};
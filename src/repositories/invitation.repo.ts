@@ -0,0 +1,144 @@
+// src/repositories/invitation.repo.ts
+import { FilterQuery } from "mongoose";
+import Invitation, { IInvitation } from "../models/Invitation";
+import type { Role } from "../models/User";
+import { hashToken } from "../utils/token";
+import { inviteTokenExpiresAt, signInviteToken } from "../utils/jwt";
+
+export type InvitationStatus = "pending" | "accepted" | "revoked" | "expired";
+
+export type InvitationListOpts = {
+  page?: number;
+  limit?: number;
+  status?: InvitationStatus;
+};
+
+const statusFilter = (
+  status: InvitationStatus,
+  now = new Date()
+): FilterQuery<IInvitation> => {
+  switch (status) {
+    case "accepted":
+      return { acceptedAt: { $ne: null } };
+    case "revoked":
+      return { revokedAt: { $ne: null } };
+    case "expired":
+      return { acceptedAt: null, revokedAt: null, expiresAt: { $lte: now } };
+    default:
+      return { acceptedAt: null, revokedAt: null, expiresAt: { $gt: now } };
+  }
+};
+
+export const getInvitationStatus = (
+  doc: Pick<IInvitation, "acceptedAt" | "revokedAt" | "expiresAt">,
+  now = new Date()
+): InvitationStatus => {
+  if (doc.acceptedAt) return "accepted";
+  if (doc.revokedAt) return "revoked";
+  if (doc.expiresAt <= now) return "expired";
+  return "pending";
+};
+
+export const invitationRepo = {
+  /**
+   * Tạo lời mời và trả về token thô (chỉ dùng để gửi mail)
+   */
+  async create(input: {
+    userId: string;
+    email: string;
+    role: Role;
+    invitedBy?: string;
+  }) {
+    const doc = new Invitation({
+      user: input.userId,
+      email: input.email,
+      role: input.role,
+      invitedBy: input.invitedBy || null,
+    });
+    const token = signInviteToken(input.userId, String(doc._id));
+    doc.tokenHash = hashToken(token);
+    doc.expiresAt = inviteTokenExpiresAt();
+    await doc.save();
+    return { doc, token };
+  },
+
+  // Phát token mới (token cũ mất hiệu lực) và gia hạn
+  async rotateToken(id: string) {
+    const doc = await Invitation.findOne({
+      _id: id,
+      acceptedAt: null,
+      revokedAt: null,
+    });
+    if (!doc) return null;
+
+    const token = signInviteToken(String(doc.user), String(doc._id));
+    doc.tokenHash = hashToken(token);
+    doc.expiresAt = inviteTokenExpiresAt();
+    await doc.save();
+    return { doc, token };
+  },
+
+  async markSent(id: string) {
+    return Invitation.findByIdAndUpdate(
+      id,
+      { sentAt: new Date(), $inc: { sendCount: 1 } },
+      { new: true }
+    );
+  },
+
+  async getById(id: string) {
+    return Invitation.findById(id);
+  },
+
+  async findPendingByToken(token: string, now = new Date()) {
+    return Invitation.findOne({
+      tokenHash: hashToken(token),
+      acceptedAt: null,
+      revokedAt: null,
+      expiresAt: { $gt: now },
+    });
+  },
+
+  async markAccepted(id: string) {
+    return Invitation.findOneAndUpdate(
+      { _id: id, acceptedAt: null, revokedAt: null },
+      { acceptedAt: new Date() },
+      { new: true }
+    );
+  },
+
+  async revoke(id: string) {
+    return Invitation.findOneAndUpdate(
+      { _id: id, acceptedAt: null, revokedAt: null },
+      { revokedAt: new Date() },
+      { new: true }
+    );
+  },
+
+  async list(opts: InvitationListOpts = {}) {
+    const { page = 1, limit = 20, status } = opts;
+    const filter: FilterQuery<IInvitation> = status ? statusFilter(status) : {};
+    const safeLimit = Math.min(Math.max(Number(limit) || 20, 1), 100);
+
+    const [items, total] = await Promise.all([
+      Invitation.find(filter)
+        .select("-tokenHash")
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * safeLimit)
+        .limit(safeLimit)
+        .populate({ path: "invitedBy", select: "email name" })
+        .lean(),
+      Invitation.countDocuments(filter),
+    ]);
+
+    return {
+      items: items.map((item) => ({
+        ...item,
+        status: getInvitationStatus(item as any),
+      })),
+      total,
+      page,
+      limit: safeLimit,
+    };
+  },
+};
@@ -0,0 +1,66 @@
+// src/repositories/loginHistory.repo.ts
+import { FilterQuery } from "mongoose";
+import LoginHistory, {
+  ILoginHistory,
+  LoginFailureReason,
+  LoginMethod,
+} from "../models/LoginHistory";
+
+export type LoginHistoryEntry = {
+  userId?: string | null;
+  email?: string;
+  method: LoginMethod;
+  success: boolean;
+  reason?: LoginFailureReason;
+  ip?: string;
+  userAgent?: string;
+};
+
+export type LoginHistoryListOpts = {
+  page?: number;
+  limit?: number;
+  userId?: string;
+  email?: string;
+  success?: boolean;
+  from?: Date;
+  to?: Date;
+};
+
+export const loginHistoryRepo = {
+  async record(entry: LoginHistoryEntry) {
+    try {
+      const { userId, ...rest } = entry;
+      await LoginHistory.create({ ...rest, user: userId || null });
+    } catch (err) {
+      // Không để lỗi ghi log làm hỏng luồng đăng nhập
+      console.error("[LOGIN HISTORY]", err);
+    }
+  },
+
+  async list(opts: LoginHistoryListOpts = {}) {
+    const { page = 1, limit = 50, userId, email, success, from, to } = opts;
+
+    const filter: FilterQuery<ILoginHistory> = {};
+    if (userId) filter.user = userId;
+    if (email) filter.email = email.trim().toLowerCase();
+    if (typeof success === "boolean") filter.success = success;
+    if (from || to) {
+      filter.createdAt = {};
+      if (from) filter.createdAt.$gte = from;
+      if (to) filter.createdAt.$lte = to;
+    }
+
+    const safeLimit = Math.min(Math.max(Number(limit) || 50, 1), 200);
+
+    const [items, total] = await Promise.all([
+      LoginHistory.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * safeLimit)
+        .limit(safeLimit)
+        .lean(),
+      LoginHistory.countDocuments(filter),
+    ]);
+
+    return { items, total, page, limit: safeLimit };
+  },
+};
@@ -0,0 +1,37 @@
+// src/repositories/passwordReset.repo.ts
+import PasswordResetToken from "../models/PasswordResetToken";
+import { generateToken, hashToken } from "../utils/token";
+
+export const passwordResetRepo = {
+  /**
+   * Tạo token mới (trả về token thô để gửi mail), huỷ các token cũ chưa dùng
+   */
+  async issue(userId: string, ttlMs: number, requestedIp?: string) {
+    await PasswordResetToken.deleteMany({ user: userId, usedAt: null });
+
+    const token = generateToken();
+    const doc = await PasswordResetToken.create({
+      user: userId,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + ttlMs),
+      requestedIp,
+    });
+
+    return { token, expiresAt: doc.expiresAt };
+  },
+
+  /**
+   * Đánh dấu token đã dùng (atomic) — trả về null nếu sai, hết hạn hoặc đã dùng
+   */
+  async consume(token: string, now = new Date()) {
+    return PasswordResetToken.findOneAndUpdate(
+      { tokenHash: hashToken(token), usedAt: null, expiresAt: { $gt: now } },
+      { usedAt: now },
+      { new: true }
+    );
+  },
+
+  async revokeAllForUser(userId: string) {
+    return PasswordResetToken.deleteMany({ user: userId, usedAt: null });
+  },
+};
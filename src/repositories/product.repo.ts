@@ -2,6 +2,7 @@ import type { FilterQuery, Model } from "mongoose";
 import { Product, IProduct, ProductCategory } from "../models/Product";
 import type { LocalizedString } from "../i18n/types";
 import { DEFAULT_LOCALE } from "../i18n/types";
+import { slugRedirectRepo } from "./slugRedirect.repo";
 
 const ProductModel = Product as unknown as Model<IProduct>;
 
@@ -97,6 +98,11 @@ export const productRepo = {
 
     await ensureUniqueName(newCategory, newName, String(doc._id));
 
+    const previousSlugs = {
+      slug: doc.slug,
+      vi: doc.slug_i18n?.vi,
+      en: doc.slug_i18n?.en,
+    };
     Object.assign(doc, data);
 
     const newNameBase =
@@ -116,7 +122,13 @@ export const productRepo = {
       doc.slug = slugify(newNameBase);
     }
 
-    return doc.save();
+    const saved = await doc.save();
+    await slugRedirectRepo.recordRenames("product", String(saved._id), [
+      { locale: null, from: previousSlugs.slug, to: saved.slug },
+      { locale: "vi", from: previousSlugs.vi, to: saved.slug_i18n?.vi },
+      { locale: "en", from: previousSlugs.en, to: saved.slug_i18n?.en },
+    ]);
+    return saved;
   },
 
   async delete(id: string) {
@@ -127,8 +139,22 @@ export const productRepo = {
     return ProductModel.findById(id);
   },
 
+  // Slug chung hoặc slug theo locale (slug trả về khi localize)
   async getBySlug(slug: string) {
-    return ProductModel.findOne({ slug, isPublished: true });
+    return ProductModel.findOne({
+      isPublished: true,
+      $or: [{ slug }, { "slug_i18n.vi": slug }, { "slug_i18n.en": slug }],
+    });
+  },
+
+  async isSlugInUse(slug: string) {
+    return !!(await ProductModel.exists({
+      $or: [{ slug }, { "slug_i18n.vi": slug }, { "slug_i18n.en": slug }],
+    }));
+  },
+
+  async getPublishedById(id: string) {
+    return ProductModel.findOne({ _id: id, isPublished: true });
   },
 
   async list(opts: ProductListOpts = {}) {
@@ -194,6 +220,18 @@ export const productRepo = {
     return { items, total: withCount ? total : items.length, page, limit: safeLimit };
   },
 
+  // Ảnh của mọi sản phẩm (kể cả chưa publish), để kiểm tra ảnh còn được dùng
+  async listImages() {
+    return ProductModel.find({}).select("image").lean();
+  },
+
+  async listForSitemap() {
+    return ProductModel.find({ isPublished: true })
+      .select("slug updatedAt")
+      .sort({ createdAt: -1 })
+      .lean();
+  },
+
   async listBestSellers(limit = 6, category?: ProductCategory) {
     const safeLimit = Math.min(Math.max(Number(limit) || 6, 1), 20);
     const filter: FilterQuery<IProduct> = {
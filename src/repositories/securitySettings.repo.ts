@@ -0,0 +1,43 @@
+// src/repositories/securitySettings.repo.ts
+import SecuritySettings, {
+  type SecuritySettingsKey,
+} from "../models/SecuritySettings";
+
+const KEY: SecuritySettingsKey = "security";
+const CACHE_MS = 30 * 1000;
+
+export type SecuritySettingsValue = {
+  requireTwoFactorForSuperAdmins: boolean;
+};
+
+const DEFAULTS: SecuritySettingsValue = {
+  requireTwoFactorForSuperAdmins: false,
+};
+
+let cached: { value: SecuritySettingsValue; at: number } | null = null;
+
+export const securitySettingsRepo = {
+  // authAdmin gọi ở mỗi request nên cache ngắn hạn
+  async get(): Promise<SecuritySettingsValue> {
+    if (cached && Date.now() - cached.at < CACHE_MS) return cached.value;
+
+    const doc = await SecuritySettings.findOne({ key: KEY }).lean();
+    const value: SecuritySettingsValue = {
+      requireTwoFactorForSuperAdmins:
+        doc?.requireTwoFactorForSuperAdmins ??
+        DEFAULTS.requireTwoFactorForSuperAdmins,
+    };
+    cached = { value, at: Date.now() };
+    return value;
+  },
+
+  async update(data: Partial<SecuritySettingsValue>, updatedBy?: string) {
+    const doc = await SecuritySettings.findOneAndUpdate(
+      { key: KEY },
+      { ...data, key: KEY, updatedBy: updatedBy || null },
+      { new: true, upsert: true, setDefaultsOnInsert: true }
+    ).lean();
+    cached = null;
+    return doc;
+  },
+};
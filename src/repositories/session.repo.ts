@@ -0,0 +1,203 @@
+// src/repositories/session.repo.ts
+import crypto from "node:crypto";
+import Session from "../models/Session";
+import { hashToken } from "../utils/token";
+
+export type SessionMeta = {
+  device?: string;
+  userAgent?: string;
+  ip?: string;
+};
+
+// authAdmin kiểm tra phiên ở mỗi request nên cache ngắn hạn; thu hồi trong
+// process này xoá cache ngay, process khác chậm tối đa ACTIVE_CACHE_MS
+const ACTIVE_CACHE_MS = 10 * 1000;
+const MAX_CACHE_ENTRIES = 1000;
+// Hai tab refresh cùng lúc: token vừa rotate vẫn được dùng lại trong khoảng này
+const REUSE_GRACE_MS =
+  Math.max(Number(process.env.REFRESH_REUSE_GRACE_SECONDS) || 10, 0) * 1000;
+
+const activeCache = new Map<string, { active: boolean; at: number }>();
+
+export type RotateResult =
+  | { status: "ok"; userId: string; familyId: string }
+  | { status: "reused"; userId: string; familyId: string }
+  | { status: "invalid" };
+
+export const sessionRepo = {
+  newFamilyId() {
+    return crypto.randomUUID();
+  },
+
+  async create(
+    userId: string,
+    familyId: string,
+    refreshToken: string,
+    expiresAt: Date,
+    meta: SessionMeta = {}
+  ) {
+    return Session.create({
+      user: userId,
+      familyId,
+      tokenHash: hashToken(refreshToken),
+      expiresAt,
+      lastUsedAt: new Date(),
+      ...meta,
+    });
+  },
+
+  /**
+   * Đánh dấu token hiện tại đã được rotate. Nếu token đã bị rotate trước đó
+   * (bị dùng lại) thì thu hồi cả family.
+   */
+  async rotate(refreshToken: string, now = new Date()): Promise<RotateResult> {
+    const tokenHash = hashToken(refreshToken);
+
+    const current = await Session.findOneAndUpdate(
+      {
+        tokenHash,
+        rotatedAt: null,
+        revokedAt: null,
+        expiresAt: { $gt: now },
+      },
+      { rotatedAt: now, lastUsedAt: now },
+      { new: true }
+    );
+    if (current) {
+      return {
+        status: "ok",
+        userId: String(current.user),
+        familyId: current.familyId,
+      };
+    }
+
+    const existing = await Session.findOne({ tokenHash });
+    if (!existing) return { status: "invalid" };
+
+    if (
+      existing.rotatedAt &&
+      !existing.revokedAt &&
+      existing.expiresAt > now &&
+      now.getTime() - existing.rotatedAt.getTime() <= REUSE_GRACE_MS
+    ) {
+      return {
+        status: "ok",
+        userId: String(existing.user),
+        familyId: existing.familyId,
+      };
+    }
+
+    if (existing.rotatedAt && !existing.revokedAt) {
+      await this.revokeFamily(existing.familyId, "reuse_detected", now);
+      return {
+        status: "reused",
+        userId: String(existing.user),
+        familyId: existing.familyId,
+      };
+    }
+
+    return { status: "invalid" };
+  },
+
+  /**
+   * Phiên (family) còn hiệu lực: chưa bị thu hồi và còn token chưa hết hạn
+   */
+  async isFamilyActive(familyId: string, userId: string, now = new Date()) {
+    const key = `${userId}:${familyId}`;
+    const cached = activeCache.get(key);
+    if (cached) {
+      if (now.getTime() - cached.at < ACTIVE_CACHE_MS) return cached.active;
+      activeCache.delete(key);
+    }
+
+    const active = !!(await Session.exists({
+      familyId,
+      user: userId,
+      revokedAt: null,
+      expiresAt: { $gt: now },
+    }));
+    if (activeCache.size >= MAX_CACHE_ENTRIES) {
+      activeCache.delete(activeCache.keys().next().value as string);
+    }
+    activeCache.set(key, { active, at: now.getTime() });
+    return active;
+  },
+
+  async findFamilyByToken(refreshToken: string) {
+    const doc = await Session.findOne({ tokenHash: hashToken(refreshToken) })
+      .select("familyId user")
+      .lean();
+    return doc ? { familyId: doc.familyId, userId: String(doc.user) } : null;
+  },
+
+  async revokeFamily(familyId: string, reason = "revoked", now = new Date()) {
+    activeCache.clear();
+    return Session.updateMany(
+      { familyId, revokedAt: null },
+      { revokedAt: now, revokedReason: reason }
+    );
+  },
+
+  async revokeAllForUser(
+    userId: string,
+    reason = "revoked",
+    exceptFamilyId?: string
+  ) {
+    const filter: any = { user: userId, revokedAt: null };
+    if (exceptFamilyId) filter.familyId = { $ne: exceptFamilyId };
+    activeCache.clear();
+    return Session.updateMany(filter, {
+      revokedAt: new Date(),
+      revokedReason: reason,
+    });
+  },
+
+  /**
+   * Các phiên đang hoạt động: token mới nhất (chưa rotate/thu hồi) của mỗi family
+   */
+  async listActive(userId: string, now = new Date()) {
+    const items = await Session.find({
+      user: userId,
+      rotatedAt: null,
+      revokedAt: null,
+      expiresAt: { $gt: now },
+    })
+      .sort({ lastUsedAt: -1 })
+      .lean();
+
+    const firstSeen = await Session.aggregate<{ _id: string; createdAt: Date }>(
+      [
+        { $match: { familyId: { $in: items.map((i) => i.familyId) } } },
+        { $group: { _id: "$familyId", createdAt: { $min: "$createdAt" } } },
+      ]
+    );
+    const startedAt = new Map(firstSeen.map((f) => [f._id, f.createdAt]));
+
+    // Refresh trong grace window có thể để lại 2 token cùng family
+    const seen = new Set<string>();
+    const latest = items.filter((item) => {
+      if (seen.has(item.familyId)) return false;
+      seen.add(item.familyId);
+      return true;
+    });
+
+    return latest.map((item) => ({
+      id: item.familyId,
+      device: item.device,
+      userAgent: item.userAgent,
+      ip: item.ip,
+      createdAt: startedAt.get(item.familyId) || item.createdAt,
+      lastUsedAt: item.lastUsedAt,
+      expiresAt: item.expiresAt,
+    }));
+  },
+
+  async revokeForUser(userId: string, familyId: string) {
+    activeCache.clear();
+    const result = await Session.updateMany(
+      { user: userId, familyId, revokedAt: null },
+      { revokedAt: new Date(), revokedReason: "user_revoked" }
+    );
+    return result.modifiedCount > 0;
+  },
+};
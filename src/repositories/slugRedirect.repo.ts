@@ -0,0 +1,141 @@
+import type { FilterQuery } from "mongoose";
+import SlugRedirect, {
+  ISlugRedirect,
+  SlugRedirectEntityType,
+  SlugRedirectSource,
+} from "../models/SlugRedirect";
+import type { Locale } from "../i18n/types";
+
+export type SlugChange = {
+  locale: Locale | null;
+  from?: string | null;
+  to?: string | null;
+};
+
+export type SlugRedirectListOpts = {
+  page?: number;
+  limit?: number;
+  entityType?: SlugRedirectEntityType;
+  source?: SlugRedirectSource;
+  entity?: string;
+  q?: string;
+};
+
+export type SlugRedirectInput = {
+  entityType: SlugRedirectEntityType;
+  locale: Locale | null;
+  fromSlug: string;
+  entity: string;
+  createdBy?: string | null;
+};
+
+const escapeRegex = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export const slugRedirectRepo = {
+  /**
+   * Lưu slug cũ vào lịch sử sau khi entity đổi slug. Slug mới đang được dùng
+   * thật nên bỏ các redirect trùng với nó (tránh vòng lặp khi đổi qua lại).
+   */
+  async recordRenames(
+    entityType: SlugRedirectEntityType,
+    entityId: string,
+    changes: SlugChange[]
+  ) {
+    for (const { locale, from, to } of changes) {
+      if (!from || from === to) continue;
+
+      await SlugRedirect.updateOne(
+        { entityType, fromSlug: from, locale },
+        {
+          $set: { entity: entityId, source: "history" },
+          $setOnInsert: { hits: 0 },
+        },
+        { upsert: true }
+      );
+      if (to) {
+        await SlugRedirect.deleteMany({ entityType, fromSlug: to, locale });
+      }
+    }
+  },
+
+  // Ưu tiên redirect đúng locale, sau đó tới redirect dùng chung
+  async resolve(
+    entityType: SlugRedirectEntityType,
+    slug: string,
+    locale: Locale
+  ) {
+    const items = await SlugRedirect.find({
+      entityType,
+      fromSlug: slug.toLowerCase(),
+      locale: { $in: [locale, null] },
+    }).lean();
+    return items.find((r) => r.locale === locale) || items[0] || null;
+  },
+
+  async touch(id: string) {
+    return SlugRedirect.updateOne(
+      { _id: id },
+      { $inc: { hits: 1 }, $set: { lastHitAt: new Date() } },
+      { timestamps: false }
+    );
+  },
+
+  async list(opts: SlugRedirectListOpts = {}) {
+    const { page = 1, limit = 20, entityType, source, entity, q } = opts;
+
+    const filter: FilterQuery<ISlugRedirect> = {};
+    if (entityType) filter.entityType = entityType;
+    if (source) filter.source = source;
+    if (entity) filter.entity = entity;
+    if (q?.trim()) {
+      filter.fromSlug = { $regex: escapeRegex(q.trim().toLowerCase()) };
+    }
+
+    const safeLimit = Math.min(Math.max(Number(limit) || 20, 1), 100);
+    const skip = (page - 1) * safeLimit;
+
+    const [items, total] = await Promise.all([
+      SlugRedirect.find(filter)
+        .populate({ path: "createdBy", select: "email name" })
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(safeLimit)
+        .lean(),
+      SlugRedirect.countDocuments(filter),
+    ]);
+
+    return { items, total, page, limit: safeLimit };
+  },
+
+  async getById(id: string) {
+    return SlugRedirect.findById(id);
+  },
+
+  async create(input: SlugRedirectInput) {
+    return SlugRedirect.create({
+      ...input,
+      source: "custom",
+      createdBy: input.createdBy || null,
+    });
+  },
+
+  async update(
+    id: string,
+    data: Partial<Pick<SlugRedirectInput, "locale" | "fromSlug" | "entity">>
+  ) {
+    return SlugRedirect.findByIdAndUpdate(
+      id,
+      { ...data, source: "custom" },
+      { new: true, runValidators: true }
+    );
+  },
+
+  async delete(id: string) {
+    return SlugRedirect.findByIdAndDelete(id);
+  },
+
+  async deleteForEntity(entityType: SlugRedirectEntityType, entityId: string) {
+    return SlugRedirect.deleteMany({ entityType, entity: entityId });
+  },
+};
@@ -0,0 +1,225 @@
+import type { Model, PipelineStage } from "mongoose";
+import { Blog, type IBlog } from "../models/Blog";
+import { Product, type IProduct } from "../models/Product";
+import TagLabel from "../models/TagLabel";
+import type { LocalizedString } from "../i18n/types";
+import { foldDiacritics } from "../utils/searchText";
+
+const BlogModel = Blog as unknown as Model<IBlog>;
+const ProductModel = Product as unknown as Model<IProduct>;
+
+export type TaggedEntityType = "blog" | "product";
+export const TAGGED_ENTITY_TYPES: TaggedEntityType[] = ["blog", "product"];
+
+export type TagCounts = { total: number; published: number };
+
+export type TagUsage = {
+  tag: string;
+  total: number;
+  published: number;
+  counts: Record<TaggedEntityType, TagCounts>;
+  label_i18n: LocalizedString | null;
+};
+
+export type TagUsageOpts = {
+  entityType?: TaggedEntityType;
+  // true: chỉ tag có ít nhất một bài / sản phẩm đang public
+  published?: boolean;
+  q?: string;
+};
+
+const MODELS: Record<TaggedEntityType, Model<any>> = {
+  blog: BlogModel,
+  product: ProductModel,
+};
+
+// Bài trong thùng rác không tính vào thống kê
+const usageMatch = (entityType: TaggedEntityType) =>
+  entityType === "blog" ? { deletedAt: null } : {};
+
+const publishedExpr = (entityType: TaggedEntityType, now: Date) =>
+  entityType === "blog"
+    ? {
+        $and: [
+          { $eq: ["$status", "published"] },
+          { $gt: ["$publishedAt", null] },
+          { $lte: ["$publishedAt", now] },
+        ],
+      }
+    : { $eq: ["$isPublished", true] };
+
+async function countByTag(entityType: TaggedEntityType, now: Date) {
+  const pipeline: PipelineStage[] = [
+    { $match: { ...usageMatch(entityType), "tags.0": { $exists: true } } },
+    {
+      $project: {
+        // Bỏ tag lặp trong cùng một document
+        tags: { $setUnion: ["$tags", []] },
+        published: publishedExpr(entityType, now),
+      },
+    },
+    { $unwind: "$tags" },
+    {
+      $group: {
+        _id: "$tags",
+        total: { $sum: 1 },
+        published: { $sum: { $cond: ["$published", 1, 0] } },
+      },
+    },
+  ];
+  return MODELS[entityType].aggregate<{
+    _id: string;
+    total: number;
+    published: number;
+  }>(pipeline);
+}
+
+/**
+ * Thay các tag nguồn bằng tag đích, giữ thứ tự và bỏ trùng sau khi thay.
+ * Tag do người dùng nhập nên bọc $literal để "$abc" không bị hiểu là field path
+ */
+const replaceTagsPipeline = (sources: string[], target: string) => [
+  {
+    $set: {
+      tags: {
+        $reduce: {
+          input: "$tags",
+          initialValue: [],
+          in: {
+            $let: {
+              vars: {
+                tag: {
+                  $cond: [
+                    { $in: ["$$this", { $literal: sources }] },
+                    { $literal: target },
+                    "$$this",
+                  ],
+                },
+              },
+              in: {
+                $cond: [
+                  { $in: ["$$tag", "$$value"] },
+                  "$$value",
+                  { $concatArrays: ["$$value", ["$$tag"]] },
+                ],
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+];
+
+const emptyCounts = (): Record<TaggedEntityType, TagCounts> => ({
+  blog: { total: 0, published: 0 },
+  product: { total: 0, published: 0 },
+});
+
+export const tagRepo = {
+  async listUsage(opts: TagUsageOpts = {}): Promise<TagUsage[]> {
+    const now = new Date();
+    const types = opts.entityType ? [opts.entityType] : TAGGED_ENTITY_TYPES;
+    const rows = await Promise.all(types.map((t) => countByTag(t, now)));
+
+    const byTag = new Map<string, TagUsage>();
+    types.forEach((entityType, i) => {
+      for (const row of rows[i]) {
+        const usage = byTag.get(row._id) || {
+          tag: row._id,
+          total: 0,
+          published: 0,
+          counts: emptyCounts(),
+          label_i18n: null,
+        };
+        usage.counts[entityType] = {
+          total: row.total,
+          published: row.published,
+        };
+        usage.total += row.total;
+        usage.published += row.published;
+        byTag.set(row._id, usage);
+      }
+    });
+
+    const q = opts.q ? foldDiacritics(opts.q.trim()) : "";
+    const items = Array.from(byTag.values()).filter(
+      (u) =>
+        (!opts.published || u.published > 0) &&
+        (!q || foldDiacritics(u.tag).includes(q))
+    );
+
+    const labels = await this.getLabels(items.map((u) => u.tag));
+    for (const item of items) item.label_i18n = labels.get(item.tag) || null;
+
+    return items.sort(
+      (a, b) => b.total - a.total || a.tag.localeCompare(b.tag)
+    );
+  },
+
+  async getLabels(tags: string[]) {
+    if (!tags.length) return new Map<string, LocalizedString>();
+    const docs = await TagLabel.find({ tag: { $in: tags } }).lean();
+    return new Map(docs.map((d) => [d.tag, d.label_i18n]));
+  },
+
+  async setLabel(tag: string, label: LocalizedString, updatedBy?: string) {
+    return TagLabel.findOneAndUpdate(
+      { tag },
+      { $set: { label_i18n: label, updatedBy: updatedBy || null } },
+      { new: true, upsert: true, runValidators: true }
+    );
+  },
+
+  async deleteLabel(tag: string) {
+    return TagLabel.findOneAndDelete({ tag });
+  },
+
+  /**
+   * Gộp các tag nguồn vào tag đích trên mọi Blog / Product (kể cả bài trong
+   * thùng rác để khôi phục vẫn đúng). Đổi tên là gộp với một nguồn.
+   * Không đổi updatedAt vì nội dung bài không thay đổi.
+   */
+  async merge(sources: string[], target: string) {
+    const froms = sources.filter((s) => s !== target);
+    const modified: Record<TaggedEntityType, number> = { blog: 0, product: 0 };
+    if (!froms.length) return modified;
+
+    for (const entityType of TAGGED_ENTITY_TYPES) {
+      const { modifiedCount } = await MODELS[entityType].updateMany(
+        { tags: { $in: froms } },
+        replaceTagsPipeline(froms, target),
+        { timestamps: false }
+      );
+      modified[entityType] = modifiedCount;
+    }
+
+    // Tag đích chưa có nhãn thì nhận nhãn của tag nguồn đầu tiên có nhãn
+    if (!(await TagLabel.exists({ tag: target }))) {
+      const inherited = await TagLabel.findOne({ tag: { $in: froms } }).lean();
+      if (inherited) {
+        await this.setLabel(target, inherited.label_i18n);
+      }
+    }
+    await TagLabel.deleteMany({ tag: { $in: froms } });
+
+    return modified;
+  },
+
+  // Gỡ tag khỏi mọi Blog / Product và xoá nhãn của nó
+  async remove(tag: string) {
+    const modified: Record<TaggedEntityType, number> = { blog: 0, product: 0 };
+
+    for (const entityType of TAGGED_ENTITY_TYPES) {
+      const { modifiedCount } = await MODELS[entityType].updateMany(
+        { tags: tag },
+        { $pull: { tags: tag } },
+        { timestamps: false }
+      );
+      modified[entityType] = modifiedCount;
+    }
+    await TagLabel.deleteOne({ tag });
+
+    return modified;
+  },
+};
@@ -31,6 +31,10 @@ export const userRepo = {
     return User.findOne({ email: email.toLowerCase() });
   },
 
+  async getByGoogleId(googleId: string) {
+    return User.findOne({ googleId });
+  },
+
   async getById(id: string) {
     return User.findById(id);
   },
@@ -56,4 +60,57 @@ export const userRepo = {
 
     return { items, total, page, limit };
   },
+
+  /**
+   * Tăng số lần đăng nhập sai trong cửa sổ `windowMs` (tính từ lần sai đầu
+   * tiên); đủ `maxAttempts` trong cửa sổ thì khoá tài khoản `lockMs`
+   */
+  async registerFailedLogin(
+    id: string,
+    maxAttempts: number,
+    windowMs: number,
+    lockMs: number
+  ) {
+    const now = new Date();
+    // Cửa sổ cũ đã hết hạn: đếm lại từ lần sai này
+    await User.updateOne(
+      {
+        _id: id,
+        $or: [
+          { firstFailedLoginAt: null },
+          { firstFailedLoginAt: { $lte: new Date(now.getTime() - windowMs) } },
+        ],
+      },
+      { failedLoginAttempts: 0, firstFailedLoginAt: now }
+    );
+
+    const doc = await User.findByIdAndUpdate(
+      id,
+      { $inc: { failedLoginAttempts: 1 } },
+      { new: true }
+    );
+    if (!doc) return null;
+
+    if (doc.failedLoginAttempts >= maxAttempts) {
+      doc.failedLoginAttempts = 0;
+      doc.firstFailedLoginAt = null;
+      doc.lockedUntil = new Date(now.getTime() + lockMs);
+      await doc.save();
+    }
+    return doc;
+  },
+
+  async clearLoginLock(id: string) {
+    return User.findByIdAndUpdate(
+      id,
+      { failedLoginAttempts: 0, firstFailedLoginAt: null, lockedUntil: null },
+      { new: true }
+    );
+  },
+
+  async countActiveSuperAdmins(excludeId?: string) {
+    const filter: FilterQuery<IUser> = { role: "super_admin", isActive: true };
+    if (excludeId) filter._id = { $ne: excludeId };
+    return User.countDocuments(filter);
+  },
 };
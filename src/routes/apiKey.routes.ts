@@ -0,0 +1,15 @@
+import { Router } from "express";
+import { authAdminUser } from "../middlewares/authAdmin";
+import { authorize } from "../middlewares/authorize";
+import { apiKeyController } from "../controllers/apiKey.controller";
+
+const router = Router();
+
+router.use(authAdminUser, authorize("apiKeys:manage"));
+
+router.get("/", apiKeyController.listApiKeys);
+router.post("/", apiKeyController.createApiKey);
+router.patch("/:id", apiKeyController.updateApiKey);
+router.delete("/:id", apiKeyController.revokeApiKey);
+
+export default router;
@@ -0,0 +1,12 @@
+import { Router } from "express";
+import { authAdmin } from "../middlewares/authAdmin";
+import { authorize } from "../middlewares/authorize";
+import { auditController } from "../controllers/audit.controller";
+
+const router = Router();
+
+router.use(authAdmin, authorize("audit:read"));
+
+router.get("/", auditController.listAuditLogs);
+
+export default router;
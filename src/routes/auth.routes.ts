@@ -1,12 +1,58 @@
 import { Router } from "express";
 import { authController } from "../controllers/auth.controller";
-import { authAdmin } from "../middlewares/authAdmin";
+import {
+  authAdminAllowPending2fa,
+  authAdminUser,
+} from "../middlewares/authAdmin";
+import { twoFactorController } from "../controllers/twoFactor.controller";
+import { invitationController } from "../controllers/invitation.controller";
+import {
+  loginEmailLimiter,
+  loginIpLimiter,
+  refreshLimiter,
+} from "../middlewares/rateLimit";
+import { csrfProtection, requireAllowedOrigin } from "../middlewares/csrf";
 
 const router = Router();
 
-router.post("/login", authController.login);
-router.get("/me", authAdmin, authController.me);
-router.post("/logout", authController.logout);
-router.post("/refresh", authController.refresh);
+router.post("/login", loginIpLimiter, loginEmailLimiter, authController.login);
+router.post("/google", loginIpLimiter, authController.googleLogin);
+router.post("/2fa/verify", loginIpLimiter, authController.verifyTwoFactor);
+router.get("/me", authAdminAllowPending2fa, authController.me);
+router.post("/logout", csrfProtection, authController.logout);
+router.post("/refresh", refreshLimiter, csrfProtection, authController.refresh);
+router.get("/csrf", requireAllowedOrigin, authController.csrf);
+
+router.post("/forgot-password", authController.forgotPassword);
+router.post("/reset-password", authController.resetPassword);
+router.post("/change-password", authAdminUser, authController.changePassword);
+
+router.get(
+  "/invitations/lookup",
+  loginIpLimiter,
+  invitationController.lookupInvitation
+);
+router.post(
+  "/invitations/accept",
+  loginIpLimiter,
+  invitationController.acceptInvitation
+);
+
+router.get("/sessions", authAdminUser, authController.listSessions);
+router.delete("/sessions/:id", authAdminUser, authController.revokeSession);
+
+router.get("/2fa", authAdminAllowPending2fa, twoFactorController.status);
+router.post("/2fa/setup", authAdminAllowPending2fa, twoFactorController.setup);
+router.post(
+  "/2fa/enable",
+  authAdminAllowPending2fa,
+  twoFactorController.enable
+);
+router.post("/2fa/disable", authAdminUser, twoFactorController.disable);
+router.post(
+  "/2fa/recovery-codes",
+  authAdminUser,
+  twoFactorController.regenerateRecoveryCodes
+);
 
 export default router;
@@ -1,20 +1,96 @@
 import { Router } from "express";
 import { authAdmin } from "../middlewares/authAdmin";
+import { authorize } from "../middlewares/authorize";
 import { blogController } from "../controllers/blog.controller";
+import { blogRevisionController } from "../controllers/blogRevision.controller";
+import { blogReviewController } from "../controllers/blogReview.controller";
+import { blogTrashController } from "../controllers/blogTrash.controller";
+import { blogAnalyticsController } from "../controllers/blogAnalytics.controller";
 
 const router = Router();
 
 router.use(authAdmin);
 
-router.get("/", blogController.getBlogsAdmin);
-router.get("/:id", blogController.getBlogById);
-router.post("/", blogController.createBlog);
-router.put("/:id", blogController.updateBlog);
-router.patch("/:id", blogController.updateBlog);
-router.delete("/:id", blogController.deleteBlog);
+router.get("/", authorize("blogs:read"), blogController.getBlogsAdmin);
+router.get(
+  "/analytics",
+  authorize("blogs:read"),
+  blogAnalyticsController.getAnalytics
+);
+router.get("/trash", authorize("blogs:delete"), blogTrashController.listTrash);
+router.post(
+  "/trash/:id/restore",
+  authorize("blogs:delete"),
+  blogTrashController.restoreBlog
+);
+router.delete(
+  "/trash/:id",
+  authorize("blogs:delete"),
+  blogTrashController.purgeBlog
+);
+router.get("/:id", authorize("blogs:read"), blogController.getBlogById);
+router.post("/", authorize("blogs:write"), blogController.createBlog);
+router.put("/:id", authorize("blogs:write"), blogController.updateBlog);
+router.patch("/:id", authorize("blogs:write"), blogController.updateBlog);
+router.delete("/:id", authorize("blogs:delete"), blogController.deleteBlog);
 
-router.patch("/:id/publish", blogController.publishBlog);
-router.patch("/:id/archive", blogController.archiveBlog);
-router.patch("/:id/schedule", blogController.scheduleBlog);
+router.post(
+  "/:id/preview-token",
+  authorize("blogs:read"),
+  blogController.createPreviewToken
+);
+
+router.post(
+  "/:id/submit",
+  authorize("blogs:write"),
+  blogReviewController.submitForReview
+);
+router.post(
+  "/:id/approve",
+  authorize("blogs:review"),
+  blogReviewController.approve
+);
+router.post(
+  "/:id/reject",
+  authorize("blogs:review"),
+  blogReviewController.reject
+);
+
+router.patch(
+  "/:id/publish",
+  authorize("blogs:publish"),
+  blogController.publishBlog
+);
+router.patch(
+  "/:id/archive",
+  authorize("blogs:publish"),
+  blogController.archiveBlog
+);
+router.patch(
+  "/:id/schedule",
+  authorize("blogs:publish"),
+  blogController.scheduleBlog
+);
+
+router.get(
+  "/:id/revisions",
+  authorize("blogs:read"),
+  blogRevisionController.listRevisions
+);
+router.get(
+  "/:id/revisions/diff",
+  authorize("blogs:read"),
+  blogRevisionController.diffRevisions
+);
+router.get(
+  "/:id/revisions/:version",
+  authorize("blogs:read"),
+  blogRevisionController.getRevision
+);
+router.post(
+  "/:id/revisions/:version/restore",
+  authorize("blogs:write"),
+  blogRevisionController.restoreRevision
+);
 
 export default router;
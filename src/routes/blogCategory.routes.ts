@@ -0,0 +1,15 @@
+import { Router } from "express";
+import { authAdmin } from "../middlewares/authAdmin";
+import { authorize } from "../middlewares/authorize";
+import { blogCategoryController } from "../controllers/blogTaxonomy.controller";
+
+const router = Router();
+
+router.use(authAdmin);
+
+router.get("/", authorize("blogs:read"), blogCategoryController.listAdmin);
+router.post("/", authorize("blogs:write"), blogCategoryController.create);
+router.patch("/:id", authorize("blogs:write"), blogCategoryController.update);
+router.delete("/:id", authorize("blogs:delete"), blogCategoryController.remove);
+
+export default router;
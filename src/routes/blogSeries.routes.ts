@@ -0,0 +1,15 @@
+import { Router } from "express";
+import { authAdmin } from "../middlewares/authAdmin";
+import { authorize } from "../middlewares/authorize";
+import { blogSeriesController } from "../controllers/blogTaxonomy.controller";
+
+const router = Router();
+
+router.use(authAdmin);
+
+router.get("/", authorize("blogs:read"), blogSeriesController.listAdmin);
+router.post("/", authorize("blogs:write"), blogSeriesController.create);
+router.patch("/:id", authorize("blogs:write"), blogSeriesController.update);
+router.delete("/:id", authorize("blogs:delete"), blogSeriesController.remove);
+
+export default router;
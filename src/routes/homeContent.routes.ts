@@ -1,12 +1,23 @@
 import { Router } from "express";
 import { homeContentController } from "../controllers/homeContent.controller";
 import { authAdmin } from "../middlewares/authAdmin";
+import { authorize } from "../middlewares/authorize";
 
 const router = Router();
 
 router.get("/", homeContentController.getHomeContent);
 
-router.put("/", authAdmin, homeContentController.upsertHomeContent);
-router.delete("/", authAdmin, homeContentController.deleteHomeContent);
+router.put(
+  "/",
+  authAdmin,
+  authorize("homeContent:write"),
+  homeContentController.upsertHomeContent
+);
+router.delete(
+  "/",
+  authAdmin,
+  authorize("homeContent:write"),
+  homeContentController.deleteHomeContent
+);
 
 export default router;
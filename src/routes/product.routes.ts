@@ -1,17 +1,40 @@
 import { Router } from "express";
 import { authAdmin } from "../middlewares/authAdmin";
+import { authorize } from "../middlewares/authorize";
 import { productController } from "../controllers/product.controller";
+import { tagController } from "../controllers/tag.controller";
 
 const router = Router();
 
 router.get("/", productController.getProducts);
-router.get("/admin", authAdmin, productController.getProductsAdmin);
+router.get(
+  "/admin",
+  authAdmin,
+  authorize("products:read"),
+  productController.getProductsAdmin
+);
 router.get("/best-sellers", productController.listBestSellers);
 router.get("/signature-lineup", productController.listSignatureLineup);
+router.get("/tags", tagController.publicTagCloud("product"));
 router.get("/:slug", productController.getProductBySlug);
 
-router.post("/", authAdmin, productController.createProduct);
-router.put("/:id", authAdmin, productController.updateProduct);
-router.delete("/:id", authAdmin, productController.deleteProduct);
+router.post(
+  "/",
+  authAdmin,
+  authorize("products:write"),
+  productController.createProduct
+);
+router.put(
+  "/:id",
+  authAdmin,
+  authorize("products:write"),
+  productController.updateProduct
+);
+router.delete(
+  "/:id",
+  authAdmin,
+  authorize("products:delete"),
+  productController.deleteProduct
+);
 
 export default router;
@@ -1,10 +1,26 @@
 import { Router } from "express";
 import { blogController } from "../controllers/blog.controller";
+import { blogFeedController } from "../controllers/blogFeed.controller";
+import {
+  blogCategoryController,
+  blogSeriesController,
+} from "../controllers/blogTaxonomy.controller";
+import { tagController } from "../controllers/tag.controller";
 
 const router = Router();
 
 router.get("/", blogController.listPublicBlogs);
+router.get("/search", blogController.searchPublicBlogs);
+router.get("/feed.xml", blogFeedController.rss);
+router.get("/atom.xml", blogFeedController.atom);
+router.get("/preview", blogController.getPreviewBlog);
+router.get("/categories", blogCategoryController.listPublic);
+router.get("/categories/:slug", blogCategoryController.getPublicBySlug);
+router.get("/series", blogSeriesController.listPublic);
+router.get("/series/:slug", blogSeriesController.getPublicBySlug);
+router.get("/tags", tagController.publicTagCloud("blog"));
 router.get("/:slug", blogController.getPublicBlogBySlug);
+router.get("/:slug/related", blogController.getRelatedPublicBlogs);
 router.post("/:id/view", blogController.incrementViewCount);
 
 export default router;
@@ -0,0 +1,13 @@
+import { Router } from "express";
+import { authAdmin } from "../middlewares/authAdmin";
+import { authorize } from "../middlewares/authorize";
+import { securitySettingsController } from "../controllers/securitySettings.controller";
+
+const router = Router();
+
+router.use(authAdmin, authorize("users:manage"));
+
+router.get("/", securitySettingsController.getSettings);
+router.put("/", securitySettingsController.updateSettings);
+
+export default router;
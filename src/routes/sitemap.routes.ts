@@ -0,0 +1,10 @@
+import { Router } from "express";
+import { sitemapController } from "../controllers/sitemap.controller";
+
+const router = Router();
+
+router.get("/sitemap.xml", sitemapController.index);
+router.get("/sitemaps/:name.xml", sitemapController.subSitemap);
+router.get("/robots.txt", sitemapController.robots);
+
+export default router;
@@ -0,0 +1,15 @@
+import { Router } from "express";
+import { authAdmin } from "../middlewares/authAdmin";
+import { authorize } from "../middlewares/authorize";
+import { slugRedirectController } from "../controllers/slugRedirect.controller";
+
+const router = Router();
+
+router.use(authAdmin, authorize("redirects:manage"));
+
+router.get("/", slugRedirectController.listRedirects);
+router.post("/", slugRedirectController.createRedirect);
+router.patch("/:id", slugRedirectController.updateRedirect);
+router.delete("/:id", slugRedirectController.deleteRedirect);
+
+export default router;
@@ -0,0 +1,17 @@
+import { Router } from "express";
+import { authAdmin } from "../middlewares/authAdmin";
+import { authorize } from "../middlewares/authorize";
+import { tagController } from "../controllers/tag.controller";
+
+const router = Router();
+
+router.use(authAdmin, authorize("tags:manage"));
+
+router.get("/", tagController.listTags);
+router.post("/rename", tagController.renameTag);
+router.post("/merge", tagController.mergeTags);
+router.put("/labels/:tag", tagController.setTagLabel);
+router.delete("/labels/:tag", tagController.deleteTagLabel);
+router.delete("/:tag", tagController.deleteTag);
+
+export default router;
@@ -1,8 +1,12 @@
 import { Router } from "express";
 import { uploadController } from "../controllers/upload.controller";
+import { authAdmin } from "../middlewares/authAdmin";
+import { authorize } from "../middlewares/authorize";
 
 const router = Router();
 
+router.use(authAdmin, authorize("uploads:write"));
+
 router.post("/single", ...uploadController.single);
 router.post("/multi", ...uploadController.multi);
 
@@ -0,0 +1,29 @@
+import { Router } from "express";
+import { authAdmin } from "../middlewares/authAdmin";
+import { authorize } from "../middlewares/authorize";
+import { userController } from "../controllers/user.controller";
+import { invitationController } from "../controllers/invitation.controller";
+
+const router = Router();
+
+router.use(authAdmin, authorize("users:manage"));
+
+router.get("/", userController.listUsers);
+router.get("/login-history", userController.listLoginHistory);
+
+router.get("/invitations", invitationController.listInvitations);
+router.post("/invitations", invitationController.createInvitation);
+router.post("/invitations/:id/resend", invitationController.resendInvitation);
+router.delete("/invitations/:id", invitationController.revokeInvitation);
+
+router.get("/:id", userController.getUserById);
+router.post("/", userController.createUser);
+router.patch("/:id", userController.updateUser);
+
+router.patch("/:id/deactivate", userController.deactivateUser);
+router.patch("/:id/activate", userController.activateUser);
+router.patch("/:id/password", userController.resetPassword);
+router.patch("/:id/unlock", userController.unlockUser);
+router.patch("/:id/2fa/reset", userController.resetTwoFactor);
+
+export default router;
@@ -0,0 +1,8 @@
+import { Router } from "express";
+import { wellKnownController } from "../controllers/wellKnown.controller";
+
+const router = Router();
+
+router.get("/jwks.json", wellKnownController.jwks);
+
+export default router;
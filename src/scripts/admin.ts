@@ -0,0 +1,284 @@
+// CLI quản trị (bootstrap + bảo trì). Dùng: npm run admin -- <command> [--options]
+import dotenv from "dotenv";
+
+dotenv.config();
+
+import mongoose from "mongoose";
+import { connectDB } from "../config/database";
+import { userRepo } from "../repositories/user.repo";
+import { sessionRepo } from "../repositories/session.repo";
+import { blogRepo } from "../repositories/blog.repo";
+import {
+  getTrashRetentionDays,
+  purgeExpiredBlogs,
+} from "../services/blogTrash";
+import { hashPassword, validatePassword } from "../utils/password";
+import { generateToken } from "../utils/token";
+import type { Role } from "../models/User";
+
+// Đăng ký mọi model để indexes:check thấy đủ collection
+import "../models/ApiKey";
+import "../models/AuditLog";
+import "../models/Blog";
+import "../models/BlogCategory";
+import "../models/BlogRevision";
+import "../models/BlogSeries";
+import "../models/BlogView";
+import "../models/BlogViewDaily";
+import "../models/Invitation";
+import "../models/LoginHistory";
+import "../models/PasswordResetToken";
+import "../models/Product";
+import "../models/SecuritySettings";
+import "../models/SlugRedirect";
+import "../models/Session";
+import "../models/TagLabel";
+import "../models/User";
+import "../models/homeContent";
+
+type Args = {
+  _: string[];
+  flags: Record<string, string | true>;
+};
+
+type Command = {
+  usage: string;
+  description: string;
+  run(args: Args): Promise<number | void>;
+};
+
+const ROLES = new Set<Role>(["super_admin", "editor"]);
+
+function parseArgs(argv: string[]): Args {
+  const args: Args = { _: [], flags: {} };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) {
+      args._.push(arg);
+      continue;
+    }
+
+    const [key, inline] = arg.slice(2).split(/=(.*)/s, 2);
+    if (inline !== undefined) {
+      args.flags[key] = inline;
+    } else if (argv[i + 1] !== undefined && !argv[i + 1].startsWith("--")) {
+      args.flags[key] = argv[++i];
+    } else {
+      args.flags[key] = true;
+    }
+  }
+  return args;
+}
+
+function getString(args: Args, name: string, required = false) {
+  const value = args.flags[name];
+  if (typeof value === "string" && value.trim()) return value.trim();
+  if (required) throw new Error(`--${name} is required`);
+  return undefined;
+}
+
+// Không truyền --password thì sinh mật khẩu ngẫu nhiên và in ra một lần
+function resolvePassword(args: Args) {
+  const password = getString(args, "password") || generateToken(12);
+  const error = validatePassword(password);
+  if (error) throw new Error(error);
+  return { password, generated: !getString(args, "password") };
+}
+
+const commands: Record<string, Command> = {
+  "users:create": {
+    usage:
+      "users:create --email <email> [--role super_admin|editor] [--name <name>] [--password <pw>]",
+    description: "Tạo user local (mặc định role editor)",
+    async run(args) {
+      const email = getString(args, "email", true)!.toLowerCase();
+      const role = (getString(args, "role") || "editor") as Role;
+      if (!ROLES.has(role)) throw new Error(`Invalid role "${role}"`);
+
+      if (await userRepo.getByEmail(email)) {
+        throw new Error(`User ${email} already exists`);
+      }
+
+      const { password, generated } = resolvePassword(args);
+      const user = await userRepo.create({
+        email,
+        name: getString(args, "name"),
+        role,
+        provider: "local",
+        isActive: true,
+        passwordHash: await hashPassword(password),
+      });
+
+      console.log(`Created ${user.role} ${user.email} (${user.id})`);
+      if (generated) console.log(`Password: ${password}`);
+    },
+  },
+
+  "users:reset-password": {
+    usage: "users:reset-password --email <email> [--password <pw>]",
+    description: "Đặt lại mật khẩu, mở khoá và thu hồi mọi phiên đăng nhập",
+    async run(args) {
+      const email = getString(args, "email", true)!;
+      const user = await userRepo.getByEmail(email);
+      if (!user) throw new Error(`User ${email} not found`);
+
+      const { password, generated } = resolvePassword(args);
+      user.passwordHash = await hashPassword(password);
+      user.failedLoginAttempts = 0;
+      user.firstFailedLoginAt = null;
+      user.lockedUntil = null;
+      await user.save();
+      await sessionRepo.revokeAllForUser(user.id, "password_reset");
+
+      console.log(`Password reset for ${user.email}`);
+      if (generated) console.log(`Password: ${password}`);
+    },
+  },
+
+  "users:list": {
+    usage: "users:list [--role super_admin|editor] [--all] [--q <keyword>]",
+    description: "Liệt kê user (--all để gồm cả user đã khoá)",
+    async run(args) {
+      const role = getString(args, "role") as Role | undefined;
+      if (role && !ROLES.has(role)) throw new Error(`Invalid role "${role}"`);
+
+      const { items, total } = await userRepo.list({
+        role,
+        q: getString(args, "q"),
+        includeInactive: args.flags.all === true,
+        limit: 1000,
+      });
+
+      console.table(
+        items.map((u) => ({
+          id: u.id,
+          email: u.email,
+          name: u.name || "",
+          role: u.role,
+          active: u.isActive,
+          provider: u.provider,
+          twoFactor: !!u.twoFactor?.enabled,
+          lastLoginAt: u.lastLoginAt?.toISOString() || "",
+        }))
+      );
+      console.log(`${total} user(s)`);
+    },
+  },
+
+  "blogs:publish-scheduled": {
+    usage: "blogs:publish-scheduled",
+    description: "Chạy blog scheduler một lần",
+    async run() {
+      const result = await blogRepo.publishScheduled();
+      console.log(`Published ${result.modifiedCount} scheduled post(s)`);
+    },
+  },
+
+  "blogs:rebuild-derived": {
+    usage: "blogs:rebuild-derived",
+    description: "Tính lại toc_i18n, plainText_i18n, readingTimeMinutes",
+    async run() {
+      const { scanned, updated } = await blogRepo.rebuildDerivedFields();
+      console.log(`Scanned ${scanned} post(s), updated ${updated}`);
+    },
+  },
+
+  "blogs:purge-trash": {
+    usage: "blogs:purge-trash [--days <n>]",
+    description:
+      "Xoá hẳn bài trong thùng rác quá n ngày (mặc định BLOG_TRASH_RETENTION_DAYS)",
+    async run(args) {
+      const days =
+        args.flags.days !== undefined
+          ? Number(getString(args, "days"))
+          : getTrashRetentionDays();
+      if (!Number.isFinite(days) || days < 0) {
+        throw new Error("--days must be a non-negative number");
+      }
+      if (!days) {
+        console.log("Trash retention is disabled (0 days), nothing to purge");
+        return;
+      }
+
+      const { purged } = await purgeExpiredBlogs(days);
+      console.log(
+        `Purged ${purged} post(s) deleted more than ${days} day(s) ago`
+      );
+    },
+  },
+
+  "indexes:check": {
+    usage: "indexes:check [--create | --sync]",
+    description:
+      "So sánh index trong schema với MongoDB (--create: tạo index thiếu, --sync: tạo thiếu + drop index thừa)",
+    async run(args) {
+      let drift = 0;
+
+      for (const name of mongoose.modelNames().sort()) {
+        const model = mongoose.model(name);
+        const { toCreate, toDrop } = await model.diffIndexes();
+        if (!toCreate.length && !toDrop.length) {
+          console.log(`✔ ${name}`);
+          continue;
+        }
+
+        drift++;
+        console.log(`✘ ${name}`);
+        for (const index of toCreate) {
+          console.log(`    missing: ${JSON.stringify(index)}`);
+        }
+        for (const index of toDrop) {
+          console.log(`    extra:   ${JSON.stringify(index)}`);
+        }
+
+        if (args.flags.sync === true) {
+          // Drop trước rồi mới tạo: cần cho index đổi option / text index mới
+          const dropped = await model.syncIndexes();
+          console.log(`    synced (dropped: ${dropped.join(", ") || "none"})`);
+        } else if (args.flags.create === true && toCreate.length) {
+          await model.createIndexes();
+          console.log(`    created missing indexes`);
+        }
+      }
+
+      // --create không drop index thừa; exit 1 để dùng được trong CI
+      const fixed = args.flags.create === true || args.flags.sync === true;
+      if (drift && !fixed) return 1;
+    },
+  },
+};
+
+function printHelp() {
+  console.log("Usage: npm run admin -- <command> [--options]\n");
+  for (const command of Object.values(commands)) {
+    console.log(`  ${command.usage}`);
+    console.log(`      ${command.description}`);
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const name = args._[0];
+  const command = name ? commands[name] : undefined;
+
+  if (!command) {
+    printHelp();
+    return name && name !== "help" ? 1 : 0;
+  }
+
+  // Tắt autoIndex để indexes:check thấy đúng trạng thái trong DB
+  mongoose.set("autoIndex", false);
+  await connectDB();
+  try {
+    return (await command.run(args)) || 0;
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((err) => {
+    console.error(err?.message || err);
+    process.exit(1);
+  });
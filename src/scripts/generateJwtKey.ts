@@ -0,0 +1,49 @@
+// Tạo key ký JWT mới cho JWT_KEYS_DIR (xem quy trình rotate trong utils/jwtKeys.ts)
+// Dùng: npm run jwt:keygen -- <kid> [rsa|ec]
+import dotenv from "dotenv";
+
+dotenv.config();
+
+import fs from "node:fs";
+import path from "node:path";
+import { generateKeyPairSync } from "node:crypto";
+
+function main() {
+  const [kid, type = "rsa"] = process.argv.slice(2);
+  if (!kid || !/^[A-Za-z0-9._-]+$/.test(kid)) {
+    throw new Error("Usage: npm run jwt:keygen -- <kid> [rsa|ec]");
+  }
+  if (type !== "rsa" && type !== "ec") {
+    throw new Error(`Unknown key type "${type}" (use rsa or ec)`);
+  }
+
+  const dir = process.env.JWT_KEYS_DIR?.trim() || "keys";
+  const file = path.join(dir, `${kid}.pem`);
+  if (fs.existsSync(file)) {
+    throw new Error(`${file} already exists`);
+  }
+
+  const { privateKey } =
+    type === "rsa"
+      ? generateKeyPairSync("rsa", { modulusLength: 2048 })
+      : generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(
+    file,
+    privateKey.export({ format: "pem", type: "pkcs8" }) as string,
+    { mode: 0o600 }
+  );
+
+  console.log(`Created ${file} (${type === "rsa" ? "RS256" : "ES256"})`);
+  console.log(
+    `Set JWT_KEYS_DIR=${dir} (and JWT_ACTIVE_KID=${kid} if pinned), then restart.`
+  );
+}
+
+try {
+  main();
+} catch (err: any) {
+  console.error(err?.message || err);
+  process.exit(1);
+}
@@ -5,20 +5,25 @@ dotenv.config(); // load env before other imports
 import app from "./app";
 import { connectDB } from "./config/database";
 import { startBlogScheduler } from "./services/blogScheduler";
+import { startBlogTrashPurger } from "./services/blogTrash";
+import { assertProductionSecrets } from "./config/secrets";
 
 const PORT = Number(process.env.PORT) || 5000;
 
 async function bootstrap() {
   try {
+    assertProductionSecrets();
     await connectDB();
     const server = app.listen(PORT, () => {
       console.log(`Server running on http://localhost:${PORT}`);
     });
     const scheduler = startBlogScheduler();
+    const trashPurger = startBlogTrashPurger();
 
     const shutdown = () => {
       console.log("Shutting down...");
       clearInterval(scheduler);
+      clearInterval(trashPurger);
       server.close(() => process.exit(0));
     };
     process.on("SIGINT", shutdown);
@@ -0,0 +1,40 @@
+import type { AuthAdminRequest } from "../middlewares/authAdmin";
+import type { AuditAction, AuditEntityType } from "../models/AuditLog";
+import { auditRepo } from "../repositories/audit.repo";
+import { diffObjects } from "../utils/diff";
+import { getClientIp, getUserAgent } from "../utils/requestInfo";
+
+type AuditEvent = {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId?: string;
+  before?: any;
+  after?: any;
+  meta?: Record<string, any>;
+};
+
+/**
+ * Ghi audit log cho thao tác của admin. Không chặn response: lỗi chỉ được log.
+ */
+export function audit(req: AuthAdminRequest, event: AuditEvent) {
+  const { before, after, ...rest } = event;
+  const changes =
+    before !== undefined || after !== undefined
+      ? diffObjects(before ?? {}, after ?? {})
+      : [];
+
+  return auditRepo
+    .record({
+      ...rest,
+      changes,
+      actor: {
+        userId: req.adminUser?.id,
+        email: req.adminUser?.email,
+        role: req.adminUser?.role,
+        apiKeyId: req.adminUser?.apiKeyId,
+      },
+      ip: getClientIp(req),
+      userAgent: getUserAgent(req),
+    })
+    .catch((err) => console.error("[AUDIT]", err));
+}
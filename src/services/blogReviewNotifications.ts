@@ -0,0 +1,74 @@
+import type { IBlog } from "../models/Blog";
+import type { IUser, Role } from "../models/User";
+import { ROLE_PERMISSIONS } from "../config/permissions";
+import { ADMIN_APP_URL } from "../config/app";
+import { userRepo } from "../repositories/user.repo";
+import { mailer } from "./mailer";
+import { mailTemplates } from "./mailTemplates";
+
+const blogTitle = (blog: IBlog) =>
+  blog.title_i18n?.vi || blog.title_i18n?.en || blog.slug;
+
+const blogAdminUrl = (blog: IBlog) => `${ADMIN_APP_URL}/blogs/${blog.id}`;
+
+// User đang hoạt động có quyền duyệt bài (theo role)
+async function listReviewers() {
+  const roles = (Object.keys(ROLE_PERMISSIONS) as Role[]).filter((role) =>
+    ROLE_PERMISSIONS[role].includes("blogs:review")
+  );
+  const results = await Promise.all(
+    roles.map((role) => userRepo.list({ role, limit: 200 }))
+  );
+  return results.flatMap((r) => r.items);
+}
+
+/**
+ * Gửi mail cho người duyệt khi bài được gửi duyệt. Không chặn response.
+ */
+export function notifyReviewers(
+  blog: IBlog,
+  submitter: IUser | null,
+  comment?: string
+) {
+  const run = async () => {
+    const reviewers = (await listReviewers()).filter(
+      (u) => u.id !== submitter?.id
+    );
+    const mail = mailTemplates.blogReviewRequested({
+      title: blogTitle(blog),
+      submitterName: submitter?.name || submitter?.email,
+      comment,
+      url: blogAdminUrl(blog),
+    });
+    await Promise.all(
+      reviewers.map((u) => mailer.send({ to: u.email, ...mail }))
+    );
+  };
+
+  return run().catch((err) => console.error("[BLOG REVIEW NOTIFY]", err));
+}
+
+export function notifyReviewDecision(
+  blog: IBlog,
+  opts: { approved: boolean; reviewer: IUser | null; comment?: string }
+) {
+  const run = async () => {
+    const authorId = blog.review?.submittedBy || blog.createdBy;
+    const author = authorId ? await userRepo.getById(String(authorId)) : null;
+    if (!author?.isActive || author.id === opts.reviewer?.id) return;
+
+    await mailer.send({
+      to: author.email,
+      ...mailTemplates.blogReviewDecision({
+        name: author.name,
+        title: blogTitle(blog),
+        approved: opts.approved,
+        reviewerName: opts.reviewer?.name || opts.reviewer?.email,
+        comment: opts.comment,
+        url: blogAdminUrl(blog),
+      }),
+    });
+  };
+
+  return run().catch((err) => console.error("[BLOG REVIEW NOTIFY]", err));
+}
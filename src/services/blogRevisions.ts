@@ -0,0 +1,43 @@
+import type { AuthAdminRequest } from "../middlewares/authAdmin";
+import type { IBlog } from "../models/Blog";
+import type { BlogRevisionAction } from "../models/BlogRevision";
+import { blogRevisionRepo } from "../repositories/blogRevision.repo";
+
+/**
+ * Lưu revision sau khi bài được lưu. Lỗi chỉ được log để không làm hỏng
+ * request đã cập nhật thành công.
+ */
+export async function recordBlogRevision(
+  req: AuthAdminRequest,
+  blog: IBlog,
+  action: BlogRevisionAction,
+  restoredFrom?: number
+) {
+  try {
+    await blogRevisionRepo.record(
+      blog,
+      action,
+      {
+        userId: req.adminUser?.id,
+        email: req.adminUser?.email,
+        apiKeyId: req.adminUser?.apiKeyId,
+      },
+      restoredFrom
+    );
+  } catch (err) {
+    console.error("[BLOG REVISION]", err);
+  }
+}
+
+/**
+ * Gọi trước khi sửa bài: bài cũ chưa có revision thì lưu bản hiện tại làm
+ * bản gốc. Lỗi chỉ được log.
+ */
+export async function ensureBlogRevisionBaseline(blog: IBlog | null) {
+  if (!blog) return;
+  try {
+    await blogRevisionRepo.recordBaseline(blog);
+  } catch (err) {
+    console.error("[BLOG REVISION]", err);
+  }
+}
@@ -1,4 +1,5 @@
 import { blogRepo } from "../repositories/blog.repo";
+import { invalidateRelatedBlogs } from "./relatedBlogs";
 
 const DEFAULT_INTERVAL_MS = 2 * 60 * 1000;
 
@@ -10,7 +11,8 @@ export const startBlogScheduler = () => {
 
   const runOnce = async () => {
     try {
-      await blogRepo.publishScheduled();
+      const { modifiedCount } = await blogRepo.publishScheduled();
+      if (modifiedCount) invalidateRelatedBlogs();
     } catch (err) {
       console.error("[BLOG SCHEDULER]", err);
     }
@@ -0,0 +1,172 @@
+import cloudinary from "../config/cloudinary";
+import type { IBlog } from "../models/Blog";
+import { blogRepo } from "../repositories/blog.repo";
+import { blogRevisionRepo } from "../repositories/blogRevision.repo";
+import { slugRedirectRepo } from "../repositories/slugRedirect.repo";
+import { blogViewRepo } from "../repositories/blogView.repo";
+import {
+  blogCategoryRepo,
+  blogSeriesRepo,
+} from "../repositories/blogTaxonomy.repo";
+import { productRepo } from "../repositories/product.repo";
+import { homeContentRepo } from "../repositories/homeContent.repo";
+
+const DEFAULT_RETENTION_DAYS = 30;
+const DEFAULT_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const PURGE_BATCH_SIZE = 50;
+
+export type BlogAssetCleanup = {
+  deleted: string[];
+  kept: string[];
+  failed: string[];
+};
+
+// 0 = tắt tự động xoá hẳn
+export const getTrashRetentionDays = () => {
+  const raw = process.env.BLOG_TRASH_RETENTION_DAYS;
+  if (raw === undefined || raw.trim() === "") return DEFAULT_RETENTION_DAYS;
+  const days = Number(raw);
+  return Number.isFinite(days) && days > 0 ? days : 0;
+};
+
+type BlogAssets = Pick<IBlog, "coverImage" | "gallery">;
+
+const collectPublicIds = (blogs: BlogAssets[]) => {
+  const ids = blogs.flatMap((blog) => [
+    blog.coverImage?.publicId,
+    ...(blog.gallery || []).map((item) => item.publicId),
+  ]);
+  return [...new Set(ids.filter((id): id is string => !!id))];
+};
+
+/**
+ * publicId còn được dùng ở bất kỳ đâu: bài khác, category / series, sản phẩm,
+ * nội dung trang chủ (lưu publicId hoặc URL Cloudinary chứa publicId).
+ * Không kiểm tra được thì coi như tất cả còn dùng để không xoá nhầm.
+ */
+async function findReferencedAssets(publicIds: string[]) {
+  if (!publicIds.length) return new Set<string>();
+  try {
+    const referenced = await blogRepo.findReferencedPublicIds(publicIds);
+    const others = await Promise.all([
+      blogCategoryRepo.list(true),
+      blogSeriesRepo.list(true),
+      productRepo.listImages(),
+      homeContentRepo.getHome(false),
+    ]);
+    const text = JSON.stringify(others);
+    for (const id of publicIds) {
+      if (text.includes(id)) referenced.add(id);
+    }
+    return referenced;
+  } catch (err) {
+    console.error("[BLOG TRASH] check asset references", err);
+    return new Set(publicIds);
+  }
+}
+
+/**
+ * Xoá ảnh Cloudinary của các bài đã xoá hẳn (kiểm tra tham chiếu một lần cho
+ * cả lô). Ảnh còn được dùng ở nơi khác thì giữ lại; lỗi Cloudinary chỉ được
+ * log để không chặn việc dọn dữ liệu.
+ */
+async function destroyBlogAssets(
+  blogs: BlogAssets[]
+): Promise<BlogAssetCleanup> {
+  const publicIds = collectPublicIds(blogs);
+  const referenced = await findReferencedAssets(publicIds);
+  const result: BlogAssetCleanup = {
+    deleted: [],
+    kept: [...referenced],
+    failed: [],
+  };
+
+  for (const publicId of publicIds) {
+    if (referenced.has(publicId)) continue;
+    try {
+      const res = await cloudinary.uploader.destroy(publicId, {
+        invalidate: true,
+      });
+      if (res?.result === "ok" || res?.result === "not found") {
+        result.deleted.push(publicId);
+      } else {
+        result.failed.push(publicId);
+      }
+    } catch (err) {
+      console.error("[BLOG TRASH] destroy asset", publicId, err);
+      result.failed.push(publicId);
+    }
+  }
+
+  return result;
+}
+
+// Xoá hẳn bài trong thùng rác cùng dữ liệu đi kèm (chưa xoá ảnh)
+async function removeBlogData(id: string) {
+  const blog = await blogRepo.hardDelete(id);
+  if (!blog) return null;
+
+  await blogRevisionRepo.deleteForBlog(String(blog._id));
+  await slugRedirectRepo.deleteForEntity("blog", String(blog._id));
+  await blogRepo.removeRelatedReferences(String(blog._id));
+  await blogViewRepo.deleteForBlog(String(blog._id));
+  return blog;
+}
+
+/**
+ * Xoá hẳn một bài trong thùng rác cùng revision, redirect và ảnh của nó.
+ * Trả về null nếu bài không còn trong thùng rác.
+ */
+export async function purgeBlog(id: string) {
+  const blog = await removeBlogData(id);
+  if (!blog) return null;
+
+  const assets = await destroyBlogAssets([blog]);
+  return { blog, assets };
+}
+
+export async function purgeExpiredBlogs(
+  retentionDays = getTrashRetentionDays(),
+  now = new Date()
+) {
+  let purged = 0;
+  if (retentionDays <= 0) return { purged };
+
+  const before = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000);
+  for (;;) {
+    const batch = await blogRepo.listDeletedBefore(before, PURGE_BATCH_SIZE);
+    const removed: IBlog[] = [];
+    for (const item of batch) {
+      const blog = await removeBlogData(String(item._id));
+      if (blog) removed.push(blog);
+    }
+    if (removed.length) await destroyBlogAssets(removed);
+    purged += removed.length;
+    if (batch.length < PURGE_BATCH_SIZE) break;
+  }
+
+  return { purged };
+}
+
+export const startBlogTrashPurger = () => {
+  const intervalMs = Math.max(
+    Number(process.env.BLOG_TRASH_PURGE_INTERVAL_MS) || DEFAULT_INTERVAL_MS,
+    60 * 1000
+  );
+
+  const runOnce = async () => {
+    try {
+      const { purged } = await purgeExpiredBlogs();
+      if (purged) console.log(`[BLOG TRASH] purged ${purged} post(s)`);
+    } catch (err) {
+      console.error("[BLOG TRASH]", err);
+    }
+  };
+
+  void runOnce();
+
+  const timer = setInterval(runOnce, intervalMs);
+
+  timer.unref?.();
+  return timer;
+};
@@ -0,0 +1,119 @@
+import { createHash } from "crypto";
+import type { Request } from "express";
+import { blogRepo } from "../repositories/blog.repo";
+import { blogViewRepo } from "../repositories/blogView.repo";
+import type { Locale } from "../i18n/types";
+import { ANALYTICS_TIMEZONE } from "../config/app";
+import {
+  getClientIp,
+  getUserAgent,
+  isBotUserAgent,
+} from "../utils/requestInfo";
+
+const DEFAULT_DEDUPE_MINUTES = 30;
+const MAX_VISITOR_ID_LENGTH = 100;
+
+export type BlogViewResult = {
+  counted: boolean;
+  reason?: "bot" | "duplicate";
+  viewCount: number;
+};
+
+export const getViewDedupeWindowMs = () =>
+  Math.max(
+    Number(process.env.BLOG_VIEW_DEDUPE_MINUTES) || DEFAULT_DEDUPE_MINUTES,
+    1
+  ) *
+  60 *
+  1000;
+
+// Ngày YYYY-MM-DD theo múi giờ thống kê (en-CA định dạng sẵn kiểu ISO)
+export const analyticsDay = (date = new Date()) =>
+  new Intl.DateTimeFormat("en-CA", {
+    timeZone: ANALYTICS_TIMEZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+
+// Host của referrer (bỏ "www."), "direct" nếu không có hoặc không hợp lệ
+export function referrerHost(input?: string | null) {
+  if (!input) return "direct";
+  try {
+    const host = new URL(input).hostname.toLowerCase().replace(/^www\./, "");
+    return host.slice(0, 255) || "direct";
+  } catch {
+    return "direct";
+  }
+}
+
+// Trình duyệt prefetch / prerender trang không phải lượt xem thật
+const isPrefetch = (req: Request) =>
+  /prefetch|prerender/i.test(
+    String(req.headers["sec-purpose"] || req.headers["purpose"] || "")
+  );
+
+const hashKey = (parts: string[]) =>
+  createHash("sha256").update(parts.join("|")).digest("hex");
+
+// Dấu vết do server tự lấy (IP + UA), client không thay đổi được
+const fingerprintOf = (req: Request) =>
+  hashKey([getClientIp(req) || "", getUserAgent(req) || ""]);
+
+/**
+ * Ghi một lượt xem bài public: bỏ bot, bỏ lượt lặp của cùng IP + UA (hoặc
+ * cùng visitorId) trong BLOG_VIEW_DEDUPE_MINUTES, cộng stats.viewCount và
+ * số liệu theo ngày.
+ * Trả về null nếu bài không public.
+ */
+export async function trackBlogView(
+  req: Request,
+  blogId: string,
+  opts: { locale: Locale; referrer?: string; visitorId?: string }
+): Promise<BlogViewResult | null> {
+  const blog = await blogRepo.getPublicById(blogId);
+  if (!blog) return null;
+
+  const viewCount = blog.stats?.viewCount || 0;
+  if (isBotUserAgent(getUserAgent(req)) || isPrefetch(req)) {
+    return { counted: false, reason: "bot", viewCount };
+  }
+
+  const visitorId =
+    typeof opts.visitorId === "string"
+      ? opts.visitorId.slice(0, MAX_VISITOR_ID_LENGTH)
+      : undefined;
+  // visitorId chỉ thu hẹp thêm (cùng visitor đổi mạng), không tách được lượt
+  // trùng IP + UA nên client không thể tự đổi id để cộng view
+  const blogKey = String(blog._id);
+  const windowMs = getViewDedupeWindowMs();
+  const fresh =
+    (await blogViewRepo.markSeen(blogKey, fingerprintOf(req), windowMs)) &&
+    (!visitorId ||
+      (await blogViewRepo.markSeen(
+        blogKey,
+        hashKey(["visitor", visitorId]),
+        windowMs
+      )));
+  if (!fresh) {
+    return { counted: false, reason: "duplicate", viewCount };
+  }
+
+  const updated = await blogRepo.incrementViewCount(String(blog._id));
+  try {
+    await blogViewRepo.recordDaily({
+      blog: String(blog._id),
+      day: analyticsDay(),
+      locale: opts.locale,
+      referrer: referrerHost(opts.referrer),
+    });
+  } catch (err) {
+    // viewCount đã cộng: chỉ log để không báo lỗi / client gửi lại
+    console.error("[BLOG VIEW DAILY]", err);
+  }
+
+  return {
+    counted: true,
+    viewCount: updated?.stats?.viewCount ?? viewCount + 1,
+  };
+}
@@ -0,0 +1,90 @@
+import {
+  createRemoteJwks,
+  verifyJwtWithJwks,
+  type JwksKeySource,
+} from "../utils/jwks";
+
+const GOOGLE_JWKS_URI =
+  process.env.GOOGLE_JWKS_URI || "https://www.googleapis.com/oauth2/v3/certs";
+const GOOGLE_ISSUERS = ["https://accounts.google.com", "accounts.google.com"];
+
+export interface GoogleIdTokenPayload {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  hd?: string;
+}
+
+export interface GoogleIdTokenVerifier {
+  verify(idToken: string): Promise<GoogleIdTokenPayload>;
+}
+
+export type GoogleVerifierOpts = {
+  jwks: JwksKeySource;
+  clientIds: string[];
+  allowedDomain?: string;
+};
+
+const parseList = (value?: string) =>
+  (value || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+export function createGoogleIdTokenVerifier(
+  opts: GoogleVerifierOpts
+): GoogleIdTokenVerifier {
+  return {
+    async verify(idToken) {
+      if (!opts.clientIds.length) {
+        const error: any = new Error("GOOGLE_CLIENT_IDS is not configured");
+        error.code = "GOOGLE_NOT_CONFIGURED";
+        throw error;
+      }
+
+      const payload = await verifyJwtWithJwks<GoogleIdTokenPayload & any>(
+        idToken,
+        opts.jwks,
+        { audience: opts.clientIds, issuer: GOOGLE_ISSUERS }
+      );
+
+      if (!payload?.sub || !payload.email) {
+        throw new Error("Google token is missing sub/email");
+      }
+
+      const emailVerified =
+        payload.email_verified === true || payload.email_verified === "true";
+      if (!emailVerified) {
+        throw new Error("Google email is not verified");
+      }
+
+      if (opts.allowedDomain && payload.hd !== opts.allowedDomain) {
+        throw new Error("Google account domain is not allowed");
+      }
+
+      return {
+        sub: String(payload.sub),
+        email: String(payload.email).toLowerCase(),
+        email_verified: true,
+        name: payload.name,
+        hd: payload.hd,
+      };
+    },
+  };
+}
+
+let verifier: GoogleIdTokenVerifier = createGoogleIdTokenVerifier({
+  jwks: createRemoteJwks(GOOGLE_JWKS_URI),
+  clientIds: parseList(process.env.GOOGLE_CLIENT_IDS),
+  allowedDomain: process.env.GOOGLE_ALLOWED_DOMAIN?.trim() || undefined,
+});
+
+export function getGoogleIdTokenVerifier() {
+  return verifier;
+}
+
+// Cho phép test thay bằng verifier dùng createLocalJwks(...)
+export function setGoogleIdTokenVerifier(next: GoogleIdTokenVerifier) {
+  verifier = next;
+}
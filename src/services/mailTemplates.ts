@@ -0,0 +1,193 @@
+import type { Locale } from "../i18n/types";
+
+type LocalizedTemplate = {
+  subject: string;
+  lines: string[];
+  action?: { label: string; url: string };
+};
+
+export type RenderedMail = { subject: string; text: string; html: string };
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const renderHtmlBlock = (tpl: LocalizedTemplate) => {
+  const paragraphs = tpl.lines
+    .map((line) => `<p>${escapeHtml(line)}</p>`)
+    .join("");
+  const action = tpl.action
+    ? `<p><a href="${escapeHtml(tpl.action.url)}">${escapeHtml(
+        tpl.action.label
+      )}</a></p>`
+    : "";
+  return `<div>${paragraphs}${action}</div>`;
+};
+
+const renderTextBlock = (tpl: LocalizedTemplate) =>
+  [...tpl.lines, ...(tpl.action ? [`${tpl.action.label}: ${tpl.action.url}`] : [])]
+    .join("\n");
+
+/**
+ * Gộp bản vi + en vào một email (vi trước), vì User chưa lưu ngôn ngữ ưa thích
+ */
+function bilingual(byLocale: Record<Locale, LocalizedTemplate>): RenderedMail {
+  const order: Locale[] = ["vi", "en"];
+  return {
+    subject: `${byLocale.vi.subject} / ${byLocale.en.subject}`,
+    text: order.map((l) => renderTextBlock(byLocale[l])).join("\n\n---\n\n"),
+    html: order.map((l) => renderHtmlBlock(byLocale[l])).join("<hr />"),
+  };
+}
+
+const greeting = (name: string | undefined, locale: Locale) =>
+  locale === "vi" ? `Xin chào ${name || "bạn"},` : `Hi ${name || "there"},`;
+
+export const mailTemplates = {
+  passwordReset(opts: { name?: string; url: string; expiresInMinutes: number }) {
+    return bilingual({
+      vi: {
+        subject: "Đặt lại mật khẩu",
+        lines: [
+          greeting(opts.name, "vi"),
+          "Chúng tôi nhận được yêu cầu đặt lại mật khẩu cho tài khoản quản trị DropInCafe của bạn.",
+          `Liên kết dưới đây có hiệu lực trong ${opts.expiresInMinutes} phút và chỉ dùng được một lần.`,
+          "Nếu bạn không yêu cầu, hãy bỏ qua email này.",
+        ],
+        action: { label: "Đặt lại mật khẩu", url: opts.url },
+      },
+      en: {
+        subject: "Reset your password",
+        lines: [
+          greeting(opts.name, "en"),
+          "We received a request to reset the password of your DropInCafe admin account.",
+          `The link below is valid for ${opts.expiresInMinutes} minutes and can only be used once.`,
+          "If you did not request this, you can ignore this email.",
+        ],
+        action: { label: "Reset password", url: opts.url },
+      },
+    });
+  },
+
+  passwordChanged(opts: { name?: string }) {
+    return bilingual({
+      vi: {
+        subject: "Mật khẩu đã được thay đổi",
+        lines: [
+          greeting(opts.name, "vi"),
+          "Mật khẩu tài khoản quản trị DropInCafe của bạn vừa được thay đổi.",
+          "Nếu không phải bạn thực hiện, hãy liên hệ quản trị viên ngay.",
+        ],
+      },
+      en: {
+        subject: "Your password was changed",
+        lines: [
+          greeting(opts.name, "en"),
+          "The password of your DropInCafe admin account was just changed.",
+          "If this wasn't you, contact an administrator immediately.",
+        ],
+      },
+    });
+  },
+
+  invitation(opts: {
+    inviterName?: string;
+    role: string;
+    url: string;
+    expiresAt: Date;
+  }) {
+    const expiresVi = opts.expiresAt.toLocaleDateString("vi-VN");
+    const expiresEn = opts.expiresAt.toLocaleDateString("en-GB");
+    return bilingual({
+      vi: {
+        subject: "Lời mời tham gia trang quản trị DropInCafe",
+        lines: [
+          greeting(undefined, "vi"),
+          `${opts.inviterName || "Quản trị viên"} đã mời bạn tham gia trang quản trị DropInCafe với vai trò ${opts.role}.`,
+          `Hãy đặt mật khẩu để kích hoạt tài khoản trước ngày ${expiresVi}.`,
+        ],
+        action: { label: "Chấp nhận lời mời", url: opts.url },
+      },
+      en: {
+        subject: "You're invited to the DropInCafe admin",
+        lines: [
+          greeting(undefined, "en"),
+          `${opts.inviterName || "An administrator"} invited you to the DropInCafe admin as ${opts.role}.`,
+          `Set your password to activate the account before ${expiresEn}.`,
+        ],
+        action: { label: "Accept invitation", url: opts.url },
+      },
+    });
+  },
+
+  blogReviewRequested(opts: {
+    title: string;
+    submitterName?: string;
+    comment?: string;
+    url: string;
+  }) {
+    return bilingual({
+      vi: {
+        subject: `Bài viết chờ duyệt: ${opts.title}`,
+        lines: [
+          greeting(undefined, "vi"),
+          `${opts.submitterName || "Một biên tập viên"} đã gửi bài "${opts.title}" để duyệt.`,
+          ...(opts.comment ? [`Ghi chú: ${opts.comment}`] : []),
+        ],
+        action: { label: "Xem bài viết", url: opts.url },
+      },
+      en: {
+        subject: `Post awaiting review: ${opts.title}`,
+        lines: [
+          greeting(undefined, "en"),
+          `${opts.submitterName || "An editor"} submitted "${opts.title}" for review.`,
+          ...(opts.comment ? [`Note: ${opts.comment}`] : []),
+        ],
+        action: { label: "Open post", url: opts.url },
+      },
+    });
+  },
+
+  blogReviewDecision(opts: {
+    name?: string;
+    title: string;
+    approved: boolean;
+    reviewerName?: string;
+    comment?: string;
+    url: string;
+  }) {
+    const reviewerVi = opts.reviewerName || "Người duyệt";
+    const reviewerEn = opts.reviewerName || "A reviewer";
+    return bilingual({
+      vi: {
+        subject: opts.approved
+          ? `Bài viết đã được duyệt: ${opts.title}`
+          : `Bài viết cần chỉnh sửa: ${opts.title}`,
+        lines: [
+          greeting(opts.name, "vi"),
+          opts.approved
+            ? `${reviewerVi} đã duyệt bài "${opts.title}". Bài có thể được xuất bản hoặc lên lịch.`
+            : `${reviewerVi} đã trả lại bài "${opts.title}" để chỉnh sửa.`,
+          ...(opts.comment ? [`Nhận xét: ${opts.comment}`] : []),
+        ],
+        action: { label: "Xem bài viết", url: opts.url },
+      },
+      en: {
+        subject: opts.approved
+          ? `Post approved: ${opts.title}`
+          : `Changes requested: ${opts.title}`,
+        lines: [
+          greeting(opts.name, "en"),
+          opts.approved
+            ? `${reviewerEn} approved "${opts.title}". It can now be published or scheduled.`
+            : `${reviewerEn} sent "${opts.title}" back for changes.`,
+          ...(opts.comment ? [`Comment: ${opts.comment}`] : []),
+        ],
+        action: { label: "Open post", url: opts.url },
+      },
+    });
+  },
+};
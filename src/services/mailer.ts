@@ -0,0 +1,79 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import nodemailer, { type Transporter } from "nodemailer";
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+};
+
+const MAIL_FROM = process.env.MAIL_FROM || "DropInCafe <no-reply@dropincafe.vn>";
+const MAIL_FILE_DIR = process.env.MAIL_FILE_DIR || "tmp/mails";
+
+/**
+ * MAIL_TRANSPORT:
+ * - smtp (mặc định khi có SMTP_HOST): gửi thật qua SMTP
+ * - json: không gửi, chỉ log message (dev)
+ * - file: ghi message dạng JSON vào MAIL_FILE_DIR (test)
+ */
+function resolveTransportKind(): "smtp" | "json" | "file" {
+  const kind = process.env.MAIL_TRANSPORT?.trim().toLowerCase();
+  if (kind === "smtp" || kind === "json" || kind === "file") return kind;
+  return process.env.SMTP_HOST ? "smtp" : "json";
+}
+
+function createDefaultTransport(): Transporter {
+  if (resolveTransportKind() === "smtp") {
+    return nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_SECURE === "true",
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined,
+    });
+  }
+  return nodemailer.createTransport({ jsonTransport: true });
+}
+
+let transport: Transporter | null = null;
+
+function getTransport() {
+  if (!transport) transport = createDefaultTransport();
+  return transport;
+}
+
+// Cho phép test thay transport (vd. nodemailer.createTransport({ jsonTransport: true }))
+export function setMailTransport(next: Transporter | null) {
+  transport = next;
+}
+
+async function writeToFile(info: any) {
+  const dir = path.resolve(MAIL_FILE_DIR);
+  await fs.mkdir(dir, { recursive: true });
+  const name = `${Date.now()}-${(info.messageId || "mail").replace(
+    /[^a-z0-9]/gi,
+    ""
+  )}.json`;
+  await fs.writeFile(path.join(dir, name), String(info.message), "utf8");
+}
+
+export const mailer = {
+  async send(message: MailMessage) {
+    const info: any = await getTransport().sendMail({
+      from: MAIL_FROM,
+      ...message,
+    });
+
+    const kind = resolveTransportKind();
+    if (kind === "file" && info?.message) {
+      await writeToFile(info);
+    } else if (kind === "json") {
+      console.log("[MAILER]", message.to, message.subject);
+    }
+
+    return info;
+  },
+};
@@ -0,0 +1,149 @@
+import { blogRepo } from "../repositories/blog.repo";
+import type { IBlog } from "../models/Blog";
+import type { Locale } from "../i18n/types";
+import { foldDiacritics } from "../utils/searchText";
+
+export const MAX_RELATED_BLOGS = 12;
+
+const DEFAULT_CACHE_MS = 10 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 1000;
+const MAX_TEXT_TOKENS = 1500;
+const RECENCY_HALF_LIFE_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Trọng số các tiêu chí (tổng = 1)
+const WEIGHTS = { tags: 0.45, text: 0.3, recency: 0.15, views: 0.1 };
+
+type RelatedEntry = { items: any[]; at: number };
+
+const cache = new Map<string, RelatedEntry>();
+
+const getCacheMs = () => {
+  const raw = process.env.BLOG_RELATED_CACHE_MS;
+  const value = raw === undefined ? DEFAULT_CACHE_MS : Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_CACHE_MS;
+};
+
+/**
+ * Xoá cache bài liên quan. Gọi khi tập bài public thay đổi (xuất bản, gỡ,
+ * sửa bài đang public) hoặc tag / category của bài bị đổi hàng loạt; ngoài ra
+ * cache tự hết hạn sau BLOG_RELATED_CACHE_MS.
+ */
+export function invalidateRelatedBlogs() {
+  cache.clear();
+}
+
+// Tần suất từ (đã bỏ dấu, bỏ từ quá ngắn) để so độ giống văn bản
+function termVector(text: string) {
+  const vector = new Map<string, number>();
+  const tokens = foldDiacritics(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((t) => t.length >= 3)
+    .slice(0, MAX_TEXT_TOKENS);
+  for (const token of tokens) vector.set(token, (vector.get(token) || 0) + 1);
+  return vector;
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>) {
+  if (!a.size || !b.size) return 0;
+  let dot = 0;
+  for (const [term, count] of a) dot += count * (b.get(term) || 0);
+  const norm = (v: Map<string, number>) =>
+    Math.sqrt(Array.from(v.values()).reduce((sum, c) => sum + c * c, 0));
+  return dot / (norm(a) * norm(b));
+}
+
+function jaccard(a: string[], b: string[]) {
+  if (!a.length || !b.length) return 0;
+  const setA = new Set(a);
+  const shared = new Set(b.filter((tag) => setA.has(tag))).size;
+  return shared / new Set([...a, ...b]).size;
+}
+
+const recency = (publishedAt: Date | null | undefined, now: number) => {
+  if (!publishedAt) return 0;
+  const ageDays = Math.max(now - new Date(publishedAt).valueOf(), 0) / DAY_MS;
+  return Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+};
+
+/**
+ * Chấm điểm ứng viên theo tag chung, độ giống plainText (cosine), độ mới và
+ * lượt xem (log, chuẩn hoá theo ứng viên nhiều view nhất)
+ */
+async function scoreCandidates(blog: IBlog, locale: Locale) {
+  const candidates = await blogRepo.listRelatedCandidates(blog, locale);
+  const now = Date.now();
+  const source = termVector(
+    (blog.plainText_i18n as any)?.[locale] ||
+      (blog.title_i18n as any)?.[locale] ||
+      ""
+  );
+  const maxViews = Math.max(
+    ...candidates.map((c: any) => c.stats?.viewCount || 0),
+    0
+  );
+
+  return candidates
+    .map((candidate: any) => {
+      const score =
+        WEIGHTS.tags * jaccard(blog.tags || [], candidate.tags || []) +
+        WEIGHTS.text *
+          cosine(source, termVector(candidate.plainText_i18n?.[locale] || "")) +
+        WEIGHTS.recency * recency(candidate.publishedAt, now) +
+        WEIGHTS.views *
+          (maxViews
+            ? Math.log1p(candidate.stats?.viewCount || 0) / Math.log1p(maxViews)
+            : 0);
+
+      const item = { ...candidate, score: Math.round(score * 1000) / 1000 };
+      delete item.plainText_i18n;
+      return item;
+    })
+    .sort(
+      (a: any, b: any) =>
+        b.score - a.score ||
+        new Date(b.publishedAt).valueOf() - new Date(a.publishedAt).valueOf()
+    );
+}
+
+/**
+ * Bài liên quan của một bài public: bài admin ghim (còn public) đứng đầu,
+ * phần còn lại lấy từ bài có điểm cao nhất. Kết quả cache theo bài + locale.
+ */
+export async function getRelatedBlogs(
+  blog: IBlog,
+  locale: Locale,
+  limit: number
+) {
+  const key = `${blog._id}:${locale}`;
+  const cacheMs = getCacheMs();
+  const hit = cache.get(key);
+
+  let items: any[];
+  if (hit && Date.now() - hit.at < cacheMs) {
+    items = hit.items;
+  } else {
+    const pinnedIds = (blog.relatedPosts || [])
+      .map(String)
+      .filter((id) => id !== String(blog._id));
+    const pinned = (await blogRepo.listPublicByIds(pinnedIds)).map(
+      (item: any) => ({ ...item, pinned: true })
+    );
+
+    const pinnedSet = new Set(pinned.map((item: any) => String(item._id)));
+    const scored = (await scoreCandidates(blog, locale))
+      .filter((item: any) => !pinnedSet.has(String(item._id)))
+      .map((item: any) => ({ ...item, pinned: false }));
+
+    items = [...pinned, ...scored].slice(0, MAX_RELATED_BLOGS);
+
+    if (cacheMs > 0) {
+      if (cache.size >= MAX_CACHE_ENTRIES) {
+        cache.delete(cache.keys().next().value as string);
+      }
+      cache.set(key, { items, at: Date.now() });
+    }
+  }
+
+  return items.slice(0, limit);
+}
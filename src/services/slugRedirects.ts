@@ -0,0 +1,84 @@
+import type { Request, Response } from "express";
+import type { Locale } from "../i18n/types";
+import type { SlugRedirectEntityType } from "../models/SlugRedirect";
+import { blogRepo } from "../repositories/blog.repo";
+import { productRepo } from "../repositories/product.repo";
+import {
+  blogCategoryRepo,
+  blogSeriesRepo,
+} from "../repositories/blogTaxonomy.repo";
+import { slugRedirectRepo } from "../repositories/slugRedirect.repo";
+
+async function currentSlugOf(
+  entityType: SlugRedirectEntityType,
+  entityId: string,
+  locale: Locale
+) {
+  if (entityType === "blog") {
+    const blog = await blogRepo.getPublicById(entityId);
+    return blog ? blog.slug_i18n?.[locale] || blog.slug : null;
+  }
+
+  if (entityType === "blogCategory" || entityType === "blogSeries") {
+    const repo =
+      entityType === "blogCategory" ? blogCategoryRepo : blogSeriesRepo;
+    const item = await repo.getActiveById(entityId);
+    return item?.slug_i18n?.[locale] || null;
+  }
+
+  const product = await productRepo.getPublishedById(entityId);
+  return product ? product.slug_i18n?.[locale] || product.slug : null;
+}
+
+/**
+ * Slug cũ / redirect tuỳ chỉnh -> slug hiện tại của entity (chỉ entity đang public).
+ * Trả về null nếu không có redirect hoặc đích trùng slug đang hỏi.
+ */
+export async function resolveSlugRedirect(
+  entityType: SlugRedirectEntityType,
+  slug: string,
+  locale: Locale
+) {
+  const redirect = await slugRedirectRepo.resolve(entityType, slug, locale);
+  if (!redirect) return null;
+
+  const target = await currentSlugOf(
+    entityType,
+    String(redirect.entity),
+    locale
+  );
+  if (!target || target === slug) return null;
+
+  void slugRedirectRepo
+    .touch(String(redirect._id))
+    .catch((err) => console.error("[SLUG REDIRECT]", err));
+
+  return target;
+}
+
+/**
+ * 301 kèm slug canonical trong body để frontend tự điều hướng;
+ * Location là chính URL đang gọi với slug (segment cuối) thay bằng slug mới.
+ */
+export function sendSlugRedirect(
+  req: Request,
+  res: Response,
+  slug: string,
+  locale: Locale
+) {
+  const queryIndex = req.originalUrl.indexOf("?");
+  const path =
+    queryIndex === -1 ? req.originalUrl : req.originalUrl.slice(0, queryIndex);
+  const query = queryIndex === -1 ? "" : req.originalUrl.slice(queryIndex);
+  // Slug là segment cuối của route đang khớp: chỉ thay segment đó
+  const parent = path.replace(/\/+$/, "").replace(/[^/]*$/, "");
+
+  res.setHeader("Location", `${parent}${encodeURIComponent(slug)}${query}`);
+  res.setHeader("Vary", "Accept-Language");
+  return res.status(301).json({
+    message: "Moved Permanently",
+    code: "SLUG_MOVED",
+    slug,
+    locale,
+  });
+}
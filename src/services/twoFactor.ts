@@ -0,0 +1,120 @@
+import type { IUser } from "../models/User";
+import { generateToken, hashToken } from "../utils/token";
+import { openSecret, sealSecret } from "../utils/secretBox";
+import {
+  buildOtpauthUri,
+  generateTotpSecret,
+  verifyTotp,
+} from "../utils/totp";
+
+const ISSUER = process.env.TOTP_ISSUER || "DropInCafe Admin";
+const RECOVERY_CODE_COUNT = 10;
+
+const normalizeRecoveryCode = (code: string) =>
+  String(code || "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+
+function ensureTwoFactor(user: IUser) {
+  if (!user.twoFactor) {
+    user.twoFactor = {
+      enabled: false,
+      secret: null,
+      pendingSecret: null,
+      recoveryCodeHashes: [],
+      lastUsedStep: null,
+      enabledAt: null,
+    };
+  }
+  return user.twoFactor;
+}
+
+function generateRecoveryCodes() {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = generateToken(5); // 10 ký tự hex
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return {
+    codes,
+    hashes: codes.map((c) => hashToken(normalizeRecoveryCode(c))),
+  };
+}
+
+export const twoFactorService = {
+  /**
+   * Tạo secret chờ xác nhận; chỉ bật 2FA sau khi user nhập đúng mã đầu tiên
+   */
+  startEnrollment(user: IUser) {
+    const tf = ensureTwoFactor(user);
+    const secret = generateTotpSecret();
+    tf.pendingSecret = sealSecret(secret);
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(ISSUER, user.email, secret),
+    };
+  },
+
+  confirmEnrollment(user: IUser, code: string) {
+    const tf = ensureTwoFactor(user);
+    if (!tf.pendingSecret) return null;
+
+    const secret = openSecret(tf.pendingSecret);
+    const step = verifyTotp(secret, code);
+    if (step === null) return null;
+
+    const { codes, hashes } = generateRecoveryCodes();
+    tf.enabled = true;
+    tf.secret = tf.pendingSecret;
+    tf.pendingSecret = null;
+    tf.recoveryCodeHashes = hashes;
+    tf.lastUsedStep = step;
+    tf.enabledAt = new Date();
+    return codes;
+  },
+
+  // Mã TOTP hợp lệ và chưa dùng (step phải lớn hơn lần dùng trước)
+  verifyCode(user: IUser, code: string) {
+    const tf = user.twoFactor;
+    if (!tf?.enabled || !tf.secret) return false;
+
+    const step = verifyTotp(openSecret(tf.secret), code);
+    if (step === null) return false;
+    if (tf.lastUsedStep != null && step <= tf.lastUsedStep) return false;
+
+    tf.lastUsedStep = step;
+    return true;
+  },
+
+  consumeRecoveryCode(user: IUser, code: string) {
+    const tf = user.twoFactor;
+    if (!tf?.enabled) return false;
+
+    const hash = hashToken(normalizeRecoveryCode(code));
+    const idx = tf.recoveryCodeHashes.indexOf(hash);
+    if (idx === -1) return false;
+
+    tf.recoveryCodeHashes.splice(idx, 1);
+    return true;
+  },
+
+  regenerateRecoveryCodes(user: IUser) {
+    const tf = ensureTwoFactor(user);
+    const { codes, hashes } = generateRecoveryCodes();
+    tf.recoveryCodeHashes = hashes;
+    return codes;
+  },
+
+  disable(user: IUser) {
+    const tf = ensureTwoFactor(user);
+    tf.enabled = false;
+    tf.secret = null;
+    tf.pendingSecret = null;
+    tf.recoveryCodeHashes = [];
+    tf.lastUsedStep = null;
+    tf.enabledAt = null;
+  },
+
+  remainingRecoveryCodes(user: IUser) {
+    return user.twoFactor?.recoveryCodeHashes?.length || 0;
+  },
+};
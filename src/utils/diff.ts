@@ -0,0 +1,76 @@
+// src/utils/diff.ts — so sánh 2 document theo từng field (dùng cho audit log)
+export type FieldChange = {
+  path: string;
+  before?: any;
+  after?: any;
+  truncated?: boolean;
+};
+
+type DiffOpts = {
+  ignore?: string[];
+  maxDepth?: number;
+  maxValueBytes?: number;
+};
+
+const DEFAULT_IGNORE = ["_id", "__v", "createdAt", "updatedAt"];
+
+const isPlainObject = (value: any) =>
+  typeof value === "object" &&
+  value !== null &&
+  !Array.isArray(value) &&
+  !(value instanceof Date) &&
+  value?._bsontype === undefined;
+
+// ObjectId/Date/... -> dạng JSON để so sánh và lưu
+const normalize = (value: any) =>
+  value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+
+const toPlain = (doc: any) => normalize(doc?.toObject?.() ?? doc) ?? {};
+
+export function diffObjects(
+  before: any,
+  after: any,
+  opts: DiffOpts = {}
+): FieldChange[] {
+  const ignore = new Set(opts.ignore || DEFAULT_IGNORE);
+  const maxDepth = opts.maxDepth ?? 3;
+  const maxValueBytes = opts.maxValueBytes ?? 2048;
+  const changes: FieldChange[] = [];
+
+  const walk = (a: any, b: any, path: string, depth: number) => {
+    if (depth < maxDepth && (isPlainObject(a) || isPlainObject(b))) {
+      const keys = new Set([
+        ...Object.keys(isPlainObject(a) ? a : {}),
+        ...Object.keys(isPlainObject(b) ? b : {}),
+      ]);
+      for (const key of keys) {
+        if (depth === 0 && ignore.has(key)) continue;
+        walk(
+          isPlainObject(a) ? a[key] : undefined,
+          isPlainObject(b) ? b[key] : undefined,
+          path ? `${path}.${key}` : key,
+          depth + 1
+        );
+      }
+      return;
+    }
+
+    const aJson = JSON.stringify(a);
+    const bJson = JSON.stringify(b);
+    if (aJson === bJson) return;
+
+    // Giá trị lớn (vd. rich content) chỉ ghi nhận là có thay đổi
+    if (
+      Buffer.byteLength(aJson || "", "utf8") > maxValueBytes ||
+      Buffer.byteLength(bJson || "", "utf8") > maxValueBytes
+    ) {
+      changes.push({ path, truncated: true });
+      return;
+    }
+
+    changes.push({ path, before: a, after: b });
+  };
+
+  walk(toPlain(before), toPlain(after), "", 0);
+  return changes;
+}
@@ -0,0 +1,134 @@
+// Dựng XML cho RSS 2.0 và Atom 1.0 từ danh sách bài đã chuẩn hoá
+
+export type FeedMeta = {
+  title: string;
+  description: string;
+  link: string;
+  selfUrl: string;
+  language: string;
+  author: string;
+  updatedAt: Date;
+};
+
+export type FeedItem = {
+  id: string;
+  title: string;
+  link: string;
+  summary: string;
+  author?: string;
+  publishedAt: Date;
+  updatedAt: Date;
+  categories: string[];
+  image?: { url: string; type: string };
+};
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  gif: "image/gif",
+  avif: "image/avif",
+};
+
+export const escapeXml = (value: string) =>
+  String(value ?? "")
+    // Ký tự điều khiển không hợp lệ trong XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+export const guessImageType = (url: string) => {
+  const ext = url.split(/[?#]/)[0].split(".").pop()?.toLowerCase() || "";
+  return IMAGE_TYPES[ext] || "image/jpeg";
+};
+
+export function renderRss(meta: FeedMeta, items: FeedItem[]) {
+  const entries = items.map((item) =>
+    [
+      "<item>",
+      `<title>${escapeXml(item.title)}</title>`,
+      `<link>${escapeXml(item.link)}</link>`,
+      `<guid isPermaLink="false">${escapeXml(item.id)}</guid>`,
+      `<description>${escapeXml(item.summary)}</description>`,
+      `<pubDate>${item.publishedAt.toUTCString()}</pubDate>`,
+      ...(item.author
+        ? [`<dc:creator>${escapeXml(item.author)}</dc:creator>`]
+        : []),
+      ...item.categories.map((c) => `<category>${escapeXml(c)}</category>`),
+      // Không biết dung lượng ảnh nên length="0" (được các reader chấp nhận)
+      ...(item.image
+        ? [
+            `<enclosure url="${escapeXml(item.image.url)}" length="0" type="${
+              item.image.type
+            }" />`,
+          ]
+        : []),
+      "</item>",
+    ].join("")
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    "<channel>",
+    `<title>${escapeXml(meta.title)}</title>`,
+    `<link>${escapeXml(meta.link)}</link>`,
+    `<description>${escapeXml(meta.description)}</description>`,
+    `<language>${escapeXml(meta.language)}</language>`,
+    `<lastBuildDate>${meta.updatedAt.toUTCString()}</lastBuildDate>`,
+    `<atom:link href="${escapeXml(
+      meta.selfUrl
+    )}" rel="self" type="application/rss+xml" />`,
+    ...entries,
+    "</channel>",
+    "</rss>",
+  ].join("\n");
+}
+
+export function renderAtom(meta: FeedMeta, items: FeedItem[]) {
+  const entries = items.map((item) =>
+    [
+      "<entry>",
+      `<id>${escapeXml(item.id)}</id>`,
+      `<title>${escapeXml(item.title)}</title>`,
+      `<link rel="alternate" type="text/html" href="${escapeXml(item.link)}" />`,
+      `<published>${item.publishedAt.toISOString()}</published>`,
+      `<updated>${item.updatedAt.toISOString()}</updated>`,
+      `<summary>${escapeXml(item.summary)}</summary>`,
+      ...(item.author
+        ? [`<author><name>${escapeXml(item.author)}</name></author>`]
+        : []),
+      ...item.categories.map((c) => `<category term="${escapeXml(c)}" />`),
+      ...(item.image
+        ? [
+            `<link rel="enclosure" type="${item.image.type}" href="${escapeXml(
+              item.image.url
+            )}" />`,
+          ]
+        : []),
+      "</entry>",
+    ].join("")
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${escapeXml(
+      meta.language
+    )}">`,
+    `<id>${escapeXml(meta.link)}</id>`,
+    `<title>${escapeXml(meta.title)}</title>`,
+    `<subtitle>${escapeXml(meta.description)}</subtitle>`,
+    `<link rel="alternate" type="text/html" href="${escapeXml(meta.link)}" />`,
+    `<link rel="self" type="application/atom+xml" href="${escapeXml(
+      meta.selfUrl
+    )}" />`,
+    `<updated>${meta.updatedAt.toISOString()}</updated>`,
+    `<author><name>${escapeXml(meta.author)}</name></author>`,
+    ...entries,
+    "</feed>",
+  ].join("\n");
+}
@@ -0,0 +1,22 @@
+import crypto from "node:crypto";
+import type { Response } from "express";
+
+/**
+ * Gửi body kèm ETag (theo nội dung) và Last-Modified;
+ * res.send tự trả 304 khi If-None-Match / If-Modified-Since còn khớp.
+ */
+export function sendCacheable(
+  res: Response,
+  body: string,
+  opts: { contentType: string; lastModified?: Date | null; maxAge?: number }
+) {
+  const hash = crypto.createHash("sha1").update(body).digest("base64url");
+
+  res.setHeader("Content-Type", `${opts.contentType}; charset=utf-8`);
+  res.setHeader("ETag", `"${hash}"`);
+  if (opts.lastModified) {
+    res.setHeader("Last-Modified", opts.lastModified.toUTCString());
+  }
+  res.setHeader("Cache-Control", `public, max-age=${opts.maxAge ?? 600}`);
+  return res.send(body);
+}
@@ -0,0 +1,114 @@
+// src/utils/jwks.ts
+import { createPublicKey, type JsonWebKey, type KeyObject } from "node:crypto";
+import jwt from "jsonwebtoken";
+
+export type Jwk = JsonWebKey & { kid?: string; alg?: string; use?: string };
+
+/**
+ * Nguồn public key theo `kid`. Production dùng remote JWKS (Google),
+ * test có thể truyền bộ key local.
+ */
+export interface JwksKeySource {
+  getKey(kid: string | undefined): Promise<KeyObject | null>;
+}
+
+export interface JwtVerifyOpts {
+  audience?: string | string[];
+  issuer?: string | string[];
+  algorithms?: jwt.Algorithm[];
+}
+
+const DEFAULT_CACHE_MS = 60 * 60 * 1000;
+
+function toKeyMap(keys: Jwk[]) {
+  const map = new Map<string, KeyObject>();
+  for (const jwk of keys) {
+    if (jwk.use && jwk.use !== "sig") continue;
+    try {
+      map.set(jwk.kid || "", createPublicKey({ key: jwk, format: "jwk" }));
+    } catch (err) {
+      console.warn("[JWKS] Skipping invalid key", jwk.kid, err);
+    }
+  }
+  return map;
+}
+
+function parseMaxAge(cacheControl: string | null): number | null {
+  const match = /max-age=(\d+)/i.exec(cacheControl || "");
+  return match ? Number(match[1]) * 1000 : null;
+}
+
+export function createLocalJwks(keys: Jwk[]): JwksKeySource {
+  const map = toKeyMap(keys);
+  return {
+    async getKey(kid) {
+      if (kid !== undefined) return map.get(kid) || null;
+      return map.size === 1 ? Array.from(map.values())[0] : null;
+    },
+  };
+}
+
+export function createRemoteJwks(
+  uri: string,
+  fallbackCacheMs = DEFAULT_CACHE_MS
+): JwksKeySource {
+  let cache: Map<string, KeyObject> | null = null;
+  let expiresAt = 0;
+  let pending: Promise<Map<string, KeyObject>> | null = null;
+
+  const load = async () => {
+    const res = await fetch(uri);
+    if (!res.ok) {
+      throw new Error(`JWKS fetch failed (${res.status}) from ${uri}`);
+    }
+    const body = (await res.json()) as { keys?: Jwk[] };
+    cache = toKeyMap(body.keys || []);
+    expiresAt =
+      Date.now() +
+      (parseMaxAge(res.headers.get("cache-control")) ?? fallbackCacheMs);
+    return cache;
+  };
+
+  const refresh = () => {
+    if (!pending) {
+      pending = load().finally(() => {
+        pending = null;
+      });
+    }
+    return pending;
+  };
+
+  return {
+    async getKey(kid) {
+      const cached = cache && Date.now() < expiresAt;
+      let keys = cached ? cache : await refresh();
+      // kid lạ: có thể key vừa được rotate, tải lại một lần
+      if (cached && kid && !keys.has(kid)) {
+        keys = await refresh();
+      }
+      return keys.get(kid || "") || null;
+    },
+  };
+}
+
+export async function verifyJwtWithJwks<T extends jwt.JwtPayload>(
+  token: string,
+  source: JwksKeySource,
+  opts: JwtVerifyOpts = {}
+): Promise<T> {
+  const decoded = jwt.decode(token, { complete: true });
+  if (!decoded || typeof decoded === "string") {
+    throw new Error("Malformed token");
+  }
+
+  const key = await source.getKey(decoded.header.kid);
+  if (!key) {
+    throw new Error(`No signing key found for kid "${decoded.header.kid}"`);
+  }
+
+  return jwt.verify(token, key, {
+    algorithms: opts.algorithms || ["RS256"],
+    audience: opts.audience as any,
+    issuer: opts.issuer as any,
+  }) as T;
+}
@@ -1,6 +1,8 @@
 // src/utils/jwt.ts
+import crypto from "node:crypto";
 import jwt from "jsonwebtoken";
 import type { Response } from "express";
+import { allowsHs256AccessTokens, getJwtKeyRing } from "./jwtKeys";
 
 const ACCESS_SECRET = process.env.JWT_ACCESS_SECRET || "access_secret_dev";
 const REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || "refresh_secret_dev";
@@ -16,6 +18,7 @@ const isProd = NODE_ENV === "production";
 export interface JwtPayloadBase {
   sub: string; // user id
   role?: string;
+  sid?: string; // session family id
 }
 
 // parse "15m", "7d", "1h" -> ms
@@ -40,25 +43,70 @@ const REFRESH_MAX_AGE_MS = durationToMs(
   7 * 24 * 60 * 60 * 1000
 );
 
+export function refreshTokenExpiresAt(from = new Date()): Date {
+  return new Date(from.getTime() + REFRESH_MAX_AGE_MS);
+}
+
+/**
+ * Access token ký bằng key bất đối xứng (có `kid`) nếu đã cấu hình JWT keys,
+ * để service khác verify qua /.well-known/jwks.json; nếu chưa thì dùng HS256
+ * (production cần JWT_ALLOW_HS256=true).
+ */
 export function signAccessToken(
   payload: Omit<JwtPayloadBase, "sub"> & { sub: string }
 ): string {
+  const expiresIn = ACCESS_EXPIRES as jwt.SignOptions["expiresIn"];
+  const { active } = getJwtKeyRing();
+
+  if (active?.privateKey) {
+    return jwt.sign(payload, active.privateKey, {
+      algorithm: active.alg,
+      keyid: active.kid,
+      expiresIn,
+    });
+  }
+
+  if (!allowsHs256AccessTokens()) {
+    throw new Error(
+      "JWT keys are not configured and HS256 access tokens are not allowed"
+    );
+  }
   return jwt.sign(payload, ACCESS_SECRET as jwt.Secret, {
-    expiresIn: ACCESS_EXPIRES as jwt.SignOptions["expiresIn"],
+    algorithm: "HS256",
+    expiresIn,
   });
 }
 
 export function signRefreshToken(
   payload: Omit<JwtPayloadBase, "sub"> & { sub: string }
 ): string {
+  // jwtid ngẫu nhiên để mỗi refresh token là duy nhất (lưu hash theo session)
   return jwt.sign(payload, REFRESH_SECRET as jwt.Secret, {
     expiresIn: REFRESH_EXPIRES as jwt.SignOptions["expiresIn"],
+    jwtid: crypto.randomUUID(),
   });
 }
 
 export function verifyAccessToken(token: string): JwtPayloadBase | null {
   try {
-    return jwt.verify(token, ACCESS_SECRET) as JwtPayloadBase;
+    const ring = getJwtKeyRing();
+    if (!ring.active) {
+      if (!allowsHs256AccessTokens()) return null;
+      return jwt.verify(token, ACCESS_SECRET, {
+        algorithms: ["HS256"],
+      }) as JwtPayloadBase;
+    }
+
+    // Đã dùng key bất đối xứng thì không nhận token HS256 nữa
+    const decoded = jwt.decode(token, { complete: true });
+    const kid =
+      decoded && typeof decoded !== "string" ? decoded.header.kid : undefined;
+    const key = kid ? ring.keys.get(kid) : undefined;
+    if (!key) return null;
+
+    return jwt.verify(token, key.publicKey, {
+      algorithms: [key.alg],
+    }) as JwtPayloadBase;
   } catch {
     return null;
   }
@@ -72,6 +120,100 @@ export function verifyRefreshToken(token: string): JwtPayloadBase | null {
   }
 }
 
+const TWO_FACTOR_CHALLENGE_EXPIRES = "5m";
+const TWO_FACTOR_AUDIENCE = "2fa-challenge";
+// Secret riêng để challenge token không dùng được như access token
+const TWO_FACTOR_SECRET = `${ACCESS_SECRET}:2fa`;
+
+// Token trung gian sau bước mật khẩu, chỉ dùng để gọi /auth/2fa/verify
+export function signTwoFactorChallenge(sub: string, method: string): string {
+  return jwt.sign({ sub, method }, TWO_FACTOR_SECRET as jwt.Secret, {
+    expiresIn: TWO_FACTOR_CHALLENGE_EXPIRES,
+    audience: TWO_FACTOR_AUDIENCE,
+  });
+}
+
+export function verifyTwoFactorChallenge(
+  token: string
+): { sub: string; method: string } | null {
+  try {
+    return jwt.verify(token, TWO_FACTOR_SECRET, {
+      audience: TWO_FACTOR_AUDIENCE,
+    }) as { sub: string; method: string };
+  } catch {
+    return null;
+  }
+}
+
+const INVITE_SECRET =
+  process.env.JWT_INVITE_SECRET || `${REFRESH_SECRET}:invite`;
+const INVITE_EXPIRES = process.env.INVITE_EXPIRES || "7d";
+const INVITE_AUDIENCE = "invite";
+
+export function inviteTokenExpiresAt(from = new Date()): Date {
+  return new Date(
+    from.getTime() + durationToMs(INVITE_EXPIRES, 7 * 24 * 60 * 60 * 1000)
+  );
+}
+
+export function signInviteToken(sub: string, invitationId: string): string {
+  return jwt.sign({ sub, inv: invitationId }, INVITE_SECRET as jwt.Secret, {
+    expiresIn: INVITE_EXPIRES as jwt.SignOptions["expiresIn"],
+    audience: INVITE_AUDIENCE,
+    jwtid: crypto.randomUUID(),
+  });
+}
+
+export function verifyInviteToken(
+  token: string
+): { sub: string; inv: string } | null {
+  try {
+    return jwt.verify(token, INVITE_SECRET, {
+      audience: INVITE_AUDIENCE,
+    }) as { sub: string; inv: string };
+  } catch {
+    return null;
+  }
+}
+
+const PREVIEW_SECRET =
+  process.env.JWT_PREVIEW_SECRET || `${ACCESS_SECRET}:preview`;
+const PREVIEW_AUDIENCE = "blog-preview";
+
+// Link xem trước bài chưa xuất bản; chỉ chứa id bài, hết hạn theo `expiresInSeconds`
+export function signBlogPreviewToken(
+  blogId: string,
+  expiresInSeconds: number
+): string {
+  return jwt.sign({ blog: blogId }, PREVIEW_SECRET as jwt.Secret, {
+    expiresIn: expiresInSeconds,
+    audience: PREVIEW_AUDIENCE,
+  });
+}
+
+export function verifyBlogPreviewToken(token: string): { blog: string } | null {
+  try {
+    return jwt.verify(token, PREVIEW_SECRET, {
+      audience: PREVIEW_AUDIENCE,
+    }) as { blog: string };
+  } catch {
+    return null;
+  }
+}
+
+export const CSRF_COOKIE = "csrf_token";
+
+// Cookie CSRF không httpOnly để frontend cùng site đọc được (double-submit)
+export function setCsrfCookie(res: Response, csrfToken: string) {
+  res.cookie(CSRF_COOKIE, csrfToken, {
+    httpOnly: false,
+    sameSite: isProd ? "none" : "lax",
+    secure: COOKIE_SECURE,
+    domain: COOKIE_DOMAIN,
+    maxAge: REFRESH_MAX_AGE_MS,
+  });
+}
+
 export function setAuthCookies(
   res: Response,
   accessToken: string,
@@ -105,4 +247,5 @@ export function clearAuthCookies(res: Response) {
 
   res.clearCookie("access_token", cookieCommon);
   res.clearCookie("refresh_token", cookieCommon);
+  res.clearCookie(CSRF_COOKIE, { ...cookieCommon, httpOnly: false });
 }
@@ -0,0 +1,161 @@
+// src/utils/jwtKeys.ts — bộ key bất đối xứng (RS256/ES256) để ký access token
+//
+// Nguồn key:
+//  - JWT_KEYS_DIR: thư mục chứa `<kid>.pem` (private key, dùng ký + verify)
+//    và `<kid>.pub.pem` (chỉ public key, chỉ dùng verify)
+//  - JWT_KEYS: JSON `[{ "kid": "...", "key": "-----BEGIN ..." }]` (private hoặc public)
+// Key dùng để ký: JWT_ACTIVE_KID, mặc định là private key có kid lớn nhất.
+//
+// Quy trình rotate:
+//  1. Tạo key mới: `npm run jwt:keygen -- <kid mới>` (vd. kid theo ngày 2026-10-18)
+//  2. Deploy với key mới trong JWT_KEYS_DIR (và JWT_ACTIVE_KID nếu đặt) —
+//     token mới được ký bằng key mới, key cũ vẫn có trong JWKS để verify
+//  3. Sau ít nhất JWT_EXPIRES (+ thời gian cache JWKS của service khác),
+//     xoá key cũ (hoặc đổi thành `<kid>.pub.pem` nếu muốn giữ thêm)
+import fs from "node:fs";
+import path from "node:path";
+import { createPrivateKey, createPublicKey, type KeyObject } from "node:crypto";
+import type { Jwk } from "./jwks";
+
+export type JwtKeyAlgorithm = "RS256" | "ES256";
+
+export interface JwtKey {
+  kid: string;
+  alg: JwtKeyAlgorithm;
+  publicKey: KeyObject;
+  privateKey: KeyObject | null;
+}
+
+export interface JwtKeyRing {
+  keys: Map<string, JwtKey>;
+  active: JwtKey | null;
+}
+
+const KID_RE = /^[A-Za-z0-9._-]+$/;
+
+function detectAlgorithm(key: KeyObject): JwtKeyAlgorithm {
+  if (key.asymmetricKeyType === "rsa") {
+    const bits = key.asymmetricKeyDetails?.modulusLength || 0;
+    if (bits < 2048) throw new Error("RSA keys must be at least 2048 bits");
+    return "RS256";
+  }
+  if (
+    key.asymmetricKeyType === "ec" &&
+    key.asymmetricKeyDetails?.namedCurve === "prime256v1"
+  ) {
+    return "ES256";
+  }
+  throw new Error(
+    `Unsupported key type "${key.asymmetricKeyType}" (use RSA or EC P-256)`
+  );
+}
+
+function parseKey(kid: string, pem: string): JwtKey {
+  if (!KID_RE.test(kid)) throw new Error(`Invalid kid "${kid}"`);
+
+  const isPrivate = /PRIVATE KEY-----/.test(pem);
+  const privateKey = isPrivate ? createPrivateKey(pem) : null;
+  const publicKey = privateKey
+    ? createPublicKey(privateKey)
+    : createPublicKey(pem);
+
+  return { kid, alg: detectAlgorithm(publicKey), publicKey, privateKey };
+}
+
+function readKeysFromDir(dir: string): JwtKey[] {
+  const keys: JwtKey[] = [];
+  for (const file of fs.readdirSync(dir).sort()) {
+    if (!file.endsWith(".pem")) continue;
+    const kid = file.replace(/(\.pub)?\.pem$/, "");
+    const pem = fs.readFileSync(path.join(dir, file), "utf8");
+    keys.push(parseKey(kid, pem));
+  }
+  return keys;
+}
+
+function readKeysFromEnv(raw: string): JwtKey[] {
+  const entries = JSON.parse(raw) as { kid?: string; key?: string }[];
+  if (!Array.isArray(entries)) throw new Error("JWT_KEYS must be an array");
+
+  return entries.map((entry) => {
+    if (!entry?.kid || !entry.key) {
+      throw new Error("Each JWT_KEYS entry needs kid and key");
+    }
+    // Cho phép PEM một dòng với "\n" khi đặt trong biến môi trường
+    return parseKey(entry.kid, entry.key.replace(/\\n/g, "\n"));
+  });
+}
+
+export function loadJwtKeyRing(
+  env: NodeJS.ProcessEnv = process.env
+): JwtKeyRing {
+  const keys = new Map<string, JwtKey>();
+  const add = (key: JwtKey) => {
+    const existing = keys.get(key.kid);
+    // Cùng kid: ưu tiên bản có private key
+    if (!existing || (!existing.privateKey && key.privateKey)) {
+      keys.set(key.kid, key);
+    }
+  };
+
+  if (env.JWT_KEYS_DIR?.trim()) {
+    readKeysFromDir(env.JWT_KEYS_DIR.trim()).forEach(add);
+  }
+  if (env.JWT_KEYS?.trim()) {
+    readKeysFromEnv(env.JWT_KEYS).forEach(add);
+  }
+
+  const signable = Array.from(keys.values())
+    .filter((k) => k.privateKey)
+    .sort((a, b) => a.kid.localeCompare(b.kid));
+
+  const activeKid = env.JWT_ACTIVE_KID?.trim();
+  let active: JwtKey | null = signable[signable.length - 1] || null;
+  if (activeKid) {
+    active = keys.get(activeKid) || null;
+    if (!active?.privateKey) {
+      throw new Error(
+        `JWT_ACTIVE_KID "${activeKid}" has no private key loaded`
+      );
+    }
+  }
+  if (keys.size > 0 && !active) {
+    throw new Error("JWT keys are configured but none has a private key");
+  }
+
+  return { keys, active };
+}
+
+let keyRing: JwtKeyRing | null = null;
+
+export function getJwtKeyRing(): JwtKeyRing {
+  if (!keyRing) keyRing = loadJwtKeyRing();
+  return keyRing;
+}
+
+/**
+ * Access token HS256 (secret chung) chỉ dùng khi dev, hoặc production đặt rõ
+ * JWT_ALLOW_HS256=true khi chưa cấu hình JWT keys
+ */
+export function allowsHs256AccessTokens(env: NodeJS.ProcessEnv = process.env) {
+  return (
+    (env.NODE_ENV || "development") !== "production" ||
+    env.JWT_ALLOW_HS256?.trim().toLowerCase() === "true"
+  );
+}
+
+// Dùng cho test hoặc reload key mà không restart
+export function setJwtKeyRing(ring: JwtKeyRing | null) {
+  keyRing = ring;
+}
+
+export function getPublicJwks(ring = getJwtKeyRing()): { keys: Jwk[] } {
+  return {
+    keys: Array.from(ring.keys.values()).map((key) => ({
+      ...(key.publicKey.export({ format: "jwk" }) as Jwk),
+      kid: key.kid,
+      alg: key.alg,
+      use: "sig",
+    })),
+  };
+}
@@ -1,6 +1,7 @@
 import bcrypt from "bcrypt";
 
 const SALT_ROUNDS = Number(process.env.BCRYPT_SALT_ROUNDS || 10);
+export const MIN_PASSWORD_LENGTH = 8;
 
 export async function hashPassword(plain: string): Promise<string> {
   return bcrypt.hash(plain, SALT_ROUNDS);
@@ -13,3 +14,10 @@ export async function verifyPassword(
   if (!hash) return false;
   return bcrypt.compare(plain, hash);
 }
+
+export function validatePassword(password: unknown): string | null {
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    return `password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
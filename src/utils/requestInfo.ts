@@ -0,0 +1,44 @@
+import type { Request } from "express";
+
+export function getClientIp(req: Request): string | undefined {
+  return req.ip || req.socket?.remoteAddress || undefined;
+}
+
+export function getUserAgent(req: Request): string | undefined {
+  const ua = req.headers["user-agent"];
+  return typeof ua === "string" && ua.trim() ? ua.trim().slice(0, 500) : undefined;
+}
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\//, "Opera"],
+  [/Chrome\//, "Chrome"],
+  [/Firefox\//, "Firefox"],
+  [/Safari\//, "Safari"],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/Windows/, "Windows"],
+  [/iPhone|iPad/, "iOS"],
+  [/Android/, "Android"],
+  [/Mac OS X/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+// Mô tả ngắn gọn thiết bị, vd. "Chrome on Windows"
+export function describeDevice(userAgent?: string): string {
+  if (!userAgent) return "Unknown device";
+  const browser = BROWSERS.find(([re]) => re.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([re]) => re.test(userAgent))?.[1];
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser || platform || "Unknown device";
+}
+
+// Crawler, công cụ preview link, monitor và HTTP client dòng lệnh / thư viện
+const BOT_USER_AGENT =
+  /bot|crawl|spider|slurp|mediapartners|facebookexternalhit|embedly|preview|whatsapp|telegram|skype|headless|phantomjs|lighthouse|pingdom|uptime|monitor|curl|wget|python|java\/|go-http-client|okhttp|axios|node-fetch|undici|postman|insomnia|httpclient|libwww|scrapy/i;
+
+// Không có user agent cũng coi là bot (trình duyệt thật luôn gửi)
+export function isBotUserAgent(userAgent?: string): boolean {
+  return !userAgent || BOT_USER_AGENT.test(userAgent);
+}
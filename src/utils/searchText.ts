@@ -0,0 +1,101 @@
+// Chuẩn hoá text cho tìm kiếm: bỏ dấu tiếng Việt để "ca phe" khớp "cà phê"
+
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+const SNIPPET_RADIUS = 90;
+const MAX_TERMS = 10;
+
+const foldChar = (ch: string) =>
+  ch === "đ" || ch === "Đ"
+    ? "d"
+    : ch.normalize("NFD").replace(COMBINING_MARKS, "").toLowerCase();
+
+/**
+ * Bỏ dấu + lowercase. Ký tự tiếng Việt dựng sẵn (NFC) luôn gập còn 1 ký tự.
+ */
+export const foldDiacritics = (text: string) =>
+  String(text || "")
+    .normalize("NFC")
+    .replace(/[^\u0000-\u007f]/g, foldChar)
+    .toLowerCase();
+
+// Từ khoá đã bỏ dấu, dùng cho $text và để highlight
+export const searchTerms = (query: string) =>
+  Array.from(
+    new Set(
+      foldDiacritics(query)
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter((t) => t.length > 0)
+    )
+  ).slice(0, MAX_TERMS);
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+export const escapeRegex = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Trích đoạn quanh lần khớp đầu tiên, bọc từ khớp bằng <mark>.
+ * Kết quả là HTML đã escape; không khớp thì trả về phần đầu văn bản.
+ */
+export function highlightSnippet(text: string, terms: string[]) {
+  const original = String(text || "").normalize("NFC");
+  if (!original) return "";
+
+  // Gập từng ký tự để vị trí trong bản bỏ dấu trùng với bản gốc
+  const folded = Array.from(original, (ch) =>
+    foldChar(ch).length === 1 ? foldChar(ch) : ch.toLowerCase()
+  ).join("");
+  const chars = Array.from(original);
+
+  const matches: [number, number][] = [];
+  if (terms.length) {
+    const pattern = new RegExp(
+      `(?<![\\p{L}\\p{N}])(${terms
+        .map(escapeRegex)
+        .sort((a, b) => b.length - a.length)
+        .join("|")})(?![\\p{L}\\p{N}])`,
+      "gu"
+    );
+    for (const m of folded.matchAll(pattern)) {
+      const start = Array.from(folded.slice(0, m.index)).length;
+      matches.push([start, start + Array.from(m[0]).length]);
+    }
+  }
+
+  const first = matches[0]?.[0] ?? 0;
+  let from = Math.max(first - SNIPPET_RADIUS, 0);
+  let to = Math.min(first + SNIPPET_RADIUS * 2, chars.length);
+
+  // Tránh cắt giữa từ nếu có khoảng trắng gần đó
+  const isSpace = (i: number) => /\s/.test(chars[i] || "");
+  for (let i = from; from > 0 && i < Math.min(from + 20, first); i++) {
+    if (isSpace(i - 1)) {
+      from = i;
+      break;
+    }
+  }
+  for (let i = to; to < chars.length && i > Math.max(to - 20, first); i--) {
+    if (isSpace(i)) {
+      to = i;
+      break;
+    }
+  }
+
+  let html = "";
+  let cursor = from;
+  for (const [start, end] of matches) {
+    if (end <= from || start >= to) continue;
+    const s = Math.max(start, cursor);
+    html += escapeHtml(chars.slice(cursor, s).join(""));
+    html += `<mark>${escapeHtml(chars.slice(s, Math.min(end, to)).join(""))}</mark>`;
+    cursor = Math.min(end, to);
+  }
+  html += escapeHtml(chars.slice(cursor, to).join(""));
+
+  return `${from > 0 ? "…" : ""}${html.trim()}${to < chars.length ? "…" : ""}`;
+}
@@ -0,0 +1,24 @@
+// src/utils/secretBox.ts — mã hoá đối xứng (AES-256-GCM) cho secret cần đọc lại được, vd. TOTP
+import crypto from "node:crypto";
+
+const RAW_KEY = process.env.SECRET_BOX_KEY || "secret_box_key_dev";
+const KEY = crypto.createHash("sha256").update(RAW_KEY).digest();
+
+export function sealSecret(plain: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", KEY, iv);
+  const encrypted = Buffer.concat([cipher.update(plain, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [iv, tag, encrypted].map((b) => b.toString("base64url")).join(".");
+}
+
+export function openSecret(sealed: string): string {
+  const [iv, tag, encrypted] = sealed
+    .split(".")
+    .map((part) => Buffer.from(part, "base64url"));
+  const decipher = crypto.createDecipheriv("aes-256-gcm", KEY, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString(
+    "utf8"
+  );
+}
@@ -0,0 +1,25 @@
+import type { Locale } from "../i18n/types";
+import {
+  BLOG_INDEX_PATH,
+  BLOG_POST_PATH,
+  HOME_PATH,
+  PRODUCT_PATH,
+  PUBLIC_SITE_URL,
+} from "../config/app";
+
+const fillPath = (template: string, values: Record<string, string>) =>
+  template.replace(/\{(\w+)\}/g, (match, key) =>
+    key in values ? encodeURIComponent(values[key]) : match
+  );
+
+export const homeUrl = (locale: Locale) =>
+  `${PUBLIC_SITE_URL}${fillPath(HOME_PATH, { locale })}`;
+
+export const blogIndexUrl = (locale: Locale) =>
+  `${PUBLIC_SITE_URL}${fillPath(BLOG_INDEX_PATH, { locale })}`;
+
+export const blogPostUrl = (slug: string, locale: Locale) =>
+  `${PUBLIC_SITE_URL}${fillPath(BLOG_POST_PATH, { locale, slug })}`;
+
+export const productUrl = (slug: string, locale: Locale) =>
+  `${PUBLIC_SITE_URL}${fillPath(PRODUCT_PATH, { locale, slug })}`;
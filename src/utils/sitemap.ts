@@ -0,0 +1,64 @@
+import { escapeXml } from "./feed";
+
+// Dựng XML sitemap (sitemaps.org) kèm hreflang alternate
+
+export type SitemapAlternate = { hreflang: string; href: string };
+
+export type SitemapUrl = {
+  loc: string;
+  lastmod?: Date | null;
+  alternates?: SitemapAlternate[];
+};
+
+export type SitemapRef = { loc: string; lastmod?: Date | null };
+
+const lastmodTag = (date?: Date | null) =>
+  date ? `<lastmod>${date.toISOString()}</lastmod>` : "";
+
+export function renderUrlset(urls: SitemapUrl[]) {
+  const entries = urls.map((url) =>
+    [
+      "<url>",
+      `<loc>${escapeXml(url.loc)}</loc>`,
+      lastmodTag(url.lastmod),
+      ...(url.alternates || []).map(
+        (alt) =>
+          `<xhtml:link rel="alternate" hreflang="${escapeXml(
+            alt.hreflang
+          )}" href="${escapeXml(alt.href)}" />`
+      ),
+      "</url>",
+    ].join("")
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">',
+    ...entries,
+    "</urlset>",
+  ].join("\n");
+}
+
+export function renderSitemapIndex(sitemaps: SitemapRef[]) {
+  const entries = sitemaps.map(
+    (sitemap) =>
+      `<sitemap><loc>${escapeXml(sitemap.loc)}</loc>${lastmodTag(
+        sitemap.lastmod
+      )}</sitemap>`
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...entries,
+    "</sitemapindex>",
+  ].join("\n");
+}
+
+// Ngày mới nhất trong danh sách (bỏ qua giá trị rỗng)
+export const latestDate = (dates: (Date | null | undefined)[]) =>
+  dates.reduce<Date | null>((latest, date) => {
+    if (!date) return latest;
+    const value = new Date(date);
+    return !latest || value > latest ? value : latest;
+  }, null);
@@ -0,0 +1,124 @@
+// src/utils/textDiff.ts — diff theo từ (thuật toán Myers), dùng cho diff revision bài viết
+export type TextDiffOp = {
+  type: "equal" | "insert" | "delete";
+  text: string;
+};
+
+export type TextDiffResult = {
+  ops: TextDiffOp[];
+  added: number;
+  removed: number;
+  // true khi khác biệt quá lớn: trả về xoá toàn bộ + thêm toàn bộ
+  truncated?: boolean;
+};
+
+const DEFAULT_MAX_EDITS = 2000;
+
+const tokenize = (text: string) => (text ? text.split(/(\s+)/) : []);
+
+function pushOp(ops: TextDiffOp[], type: TextDiffOp["type"], text: string) {
+  if (!text) return;
+  const last = ops[ops.length - 1];
+  if (last?.type === type) {
+    last.text += text;
+  } else {
+    ops.push({ type, text });
+  }
+}
+
+const countWords = (tokens: string[]) =>
+  tokens.filter((t) => t.trim().length > 0).length;
+
+/**
+ * So sánh 2 đoạn text theo token (từ + khoảng trắng). Giới hạn số thao tác
+ * `maxEdits` để không tốn CPU với bài viết khác nhau hoàn toàn.
+ */
+export function diffWords(
+  before: string,
+  after: string,
+  maxEdits = DEFAULT_MAX_EDITS
+): TextDiffResult {
+  const a = tokenize(before || "");
+  const b = tokenize(after || "");
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, maxEdits);
+  const offset = max + 1;
+
+  // trace[d] = phần V (k từ -d-1 đến d+1) trước bước d, để dò ngược đường đi
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+  let found = false;
+
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  if (!found) {
+    const ops: TextDiffOp[] = [];
+    pushOp(ops, "delete", before || "");
+    pushOp(ops, "insert", after || "");
+    return {
+      ops,
+      added: countWords(b),
+      removed: countWords(a),
+      truncated: true,
+    };
+  }
+
+  // Dò ngược từ (n, m) về (0, 0)
+  const reversed: { type: TextDiffOp["type"]; token: string }[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const at = (key: number) => vd[key + d + 1];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      reversed.push({ type: "equal", token: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        reversed.push({ type: "insert", token: b[--y] });
+      } else {
+        reversed.push({ type: "delete", token: a[--x] });
+      }
+    }
+  }
+
+  const ops: TextDiffOp[] = [];
+  let added = 0;
+  let removed = 0;
+  for (let i = reversed.length - 1; i >= 0; i--) {
+    const { type, token } = reversed[i];
+    if (token.trim()) {
+      if (type === "insert") added++;
+      if (type === "delete") removed++;
+    }
+    pushOp(ops, type, token);
+  }
+
+  return { ops, added, removed };
+}
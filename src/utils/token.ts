@@ -0,0 +1,10 @@
+import crypto from "node:crypto";
+
+// Token ngẫu nhiên gửi cho client; DB chỉ lưu bản hash
+export function generateToken(bytes = 32): string {
+  return crypto.randomBytes(bytes).toString("hex");
+}
+
+export function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}